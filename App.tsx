@@ -1,70 +1,316 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { type Simulation } from './types';
-import { useLocalStorage } from './hooks/useLocalStorage';
+import { usePersistedSimulations } from './hooks/usePersistedSimulations';
+import { type HistoryEntry, useSimulationHistory } from './hooks/useSimulationHistory';
+import { useTemplates } from './hooks/useTemplates';
 import Header from './components/Header';
 import SimulationList from './components/SimulationList';
+import RecoveryNotice from './components/RecoveryNotice';
+import ComparisonView from './components/ComparisonView';
+import PortfolioDashboard from './components/PortfolioDashboard';
+import Button from './components/ui/Button';
+import Toast from './components/ui/Toast';
+import ImportPortfolioDialog, { type PendingImport } from './components/ImportPortfolioDialog';
+import SharedSimulationDialog from './components/SharedSimulationDialog';
+import SimulationCard from './components/SimulationCard';
+import TemplatePickerDialog from './components/TemplatePickerDialog';
+import SaveTemplateDialog from './components/SaveTemplateDialog';
+import TokenRegistryDialog from './components/TokenRegistryDialog';
+import { type PortfolioImportMode, cloneSimulation, downloadPortfolio, mergeSimulations, parsePortfolioBundle } from './services/portfolio';
+import { type PermalinkParseResult, hasPermalinkHash, parsePermalinkHash, clearPermalinkHash } from './services/permalink';
+import { getCardValuesKey } from './services/storage';
+
+interface ToastState {
+  id: number;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+// Text fields keep their own undo for Ctrl+Z, so history shortcuts only apply outside them.
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 const App: React.FC = () => {
-  const [simulations, setSimulations] = useLocalStorage<Simulation[]>('lp-simulations', []);
+  const { simulations, setSimulations, quarantine, dismissQuarantine, discardQuarantine } = usePersistedSimulations();
+  const { commit, amend, undo, redo } = useSimulationHistory(simulations, setSimulations);
   const [newlyCreatedSimId, setNewlyCreatedSimId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [sharedLink, setSharedLink] = useState<PermalinkParseResult | null>(null);
+  const [previewSimulation, setPreviewSimulation] = useState<Simulation | null>(null);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const { templates, saveTemplate: saveUserTemplate, deleteTemplate } = useTemplates();
+  const [isPickingTemplate, setIsPickingTemplate] = useState(false);
+  const [templateSource, setTemplateSource] = useState<Simulation | null>(null);
+  const [isEditingTokens, setIsEditingTokens] = useState(false);
+
+  const showToast = useCallback((toast: Omit<ToastState, 'id'>) => setToast({ ...toast, id: Date.now() }), []);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Each undo offers a redo in its toast and vice versa, so steps can be walked back and forth.
+  // With an `entry`, the undo is limited to that change, e.g. the one a toast reported.
+  const stepHistory = useCallback((direction: 'undo' | 'redo', entry?: HistoryEntry) => {
+    const step = (current: 'undo' | 'redo', target?: HistoryEntry) => {
+      const label = current === 'undo' ? undo(target) : redo();
+      if (!label) {
+        if (target) showToast({ message: 'Could not undo: the list has changed since.' });
+        return;
+      }
+      showToast({
+        message: `${current === 'undo' ? 'Undid' : 'Redid'}: ${label}`,
+        actionLabel: current === 'undo' ? 'Redo' : 'Undo',
+        onAction: () => step(current === 'undo' ? 'redo' : 'undo'),
+      });
+    };
+    step(direction, entry);
+  }, [undo, redo, showToast]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        stepHistory(event.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault();
+        stepHistory('redo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stepHistory]);
 
-  const addSimulation = useCallback(() => {
-    const initialInvestment = 1000;
-    const initialPriceA = 3000;
-    const initialPriceB = 1;
-
-    const newSimulation: Simulation = {
-      id: Date.now().toString(),
-      protocol: 'Uniswap V3',
-      tokenA: 'ETH',
-      tokenB: 'USDC',
-      amountA: (initialInvestment / 2) / initialPriceA,
-      amountB: (initialInvestment / 2) / initialPriceB,
-      apr: 25,
-      duration: 30,
-      lowerPriceBound: 2400,
-      upperPriceBound: 3600,
-      startDate: new Date().toISOString().split('T')[0],
-      initialPriceA: initialPriceA,
-      initialPriceB: initialPriceB,
-      latestPriceA: 3000,
-      latestPriceB: 1,
-      tradeVolume: 1000000,
-      volumeFee: 0.3,
-      isHedgeEnabled: false,
-      shortAmount: initialInvestment / 2,
-      fundingRate: 0.01,
-      shortToken: 'A',
+  // A shared link can arrive on load or be pasted into the address bar of an open app.
+  useEffect(() => {
+    const readHash = async () => {
+      if (!hasPermalinkHash(window.location.hash)) return;
+      const result = await parsePermalinkHash(window.location.hash);
+      clearPermalinkHash();
+      setSharedLink(result);
     };
-    setSimulations(prev => [newSimulation, ...prev]);
-    setNewlyCreatedSimId(newSimulation.id);
-  }, [setSimulations]);
+    readHash();
+    window.addEventListener('hashchange', readHash);
+    return () => window.removeEventListener('hashchange', readHash);
+  }, []);
+
+  const createSimulation = useCallback((simulation: Simulation) => {
+    commit('Add simulation', prev => [simulation, ...prev]);
+    setNewlyCreatedSimId(simulation.id);
+    setIsPickingTemplate(false);
+  }, [commit]);
 
   const updateSimulation = useCallback((id: string, updatedSim: Partial<Simulation>) => {
-    setSimulations(prev => prev.map(sim => sim.id === id ? { ...sim, ...updatedSim } : sim));
-  }, [setSimulations]);
+    const sim = simulations.find(s => s.id === id);
+    // Keystrokes in one field arrive as a burst of updates to the same keys; undo them together.
+    const coalesceKey = `update:${id}:${Object.keys(updatedSim).sort().join(',')}`;
+    commit(`Edit ${sim?.protocol ?? 'simulation'}`, prev => prev.map(sim => sim.id === id ? { ...sim, ...updatedSim } : sim), coalesceKey);
+  }, [simulations, commit]);
+
+  // Automatic price refreshes are not edits, so they stay out of the undo history.
+  const refreshSimulation = useCallback((id: string, updatedSim: Partial<Simulation>) => {
+    amend([id], sim => ({ ...sim, ...updatedSim }));
+  }, [amend]);
 
   const removeSimulation = useCallback((id: string) => {
-    setSimulations(prev => prev.filter(sim => sim.id !== id));
-    // Also remove the persisted input values for this simulation.
+    const sim = simulations.find(s => s.id === id);
+    const label = `Remove ${sim?.protocol ?? 'simulation'}`;
+    const entry = commit(label, prev => prev.filter(sim => sim.id !== id));
+    // Also remove the persisted input values for this simulation; the history keeps a copy.
     if (typeof window !== 'undefined') {
-        window.localStorage.removeItem(`lp-sim-values-${id}`);
+        window.localStorage.removeItem(getCardValuesKey(id));
+    }
+    showToast({ message: `Removed ${sim?.protocol ?? 'simulation'}`, actionLabel: 'Undo', onAction: () => stepHistory('undo', entry) });
+  }, [simulations, commit, showToast, stepHistory]);
+
+  const duplicateSimulation = useCallback((id: string) => {
+    const sim = simulations.find(s => s.id === id);
+    if (!sim) return;
+    const copy = cloneSimulation(sim);
+    // The copy starts from the same input text as the original, under its own key and name.
+    const storedValues = window.localStorage.getItem(getCardValuesKey(id));
+    if (storedValues) {
+      try {
+        window.localStorage.setItem(getCardValuesKey(copy.id), JSON.stringify({ ...JSON.parse(storedValues), protocol: copy.protocol }));
+      } catch (error) {
+        console.warn('Could not copy the stored inputs of the simulation:', error);
+      }
     }
-  }, [setSimulations]);
+    commit(`Duplicate ${sim.protocol}`, prev => prev.flatMap(s => s.id === id ? [s, copy] : [s]));
+    setNewlyCreatedSimId(copy.id);
+  }, [simulations, commit]);
+
+  const saveTemplate = useCallback((name: string) => {
+    if (!templateSource) return;
+    saveUserTemplate(templateSource, name);
+    setTemplateSource(null);
+    showToast({ message: `Saved template ${name}` });
+  }, [templateSource, saveUserTemplate, showToast]);
+
+  const startSaveTemplate = useCallback((id: string) => {
+    setTemplateSource(simulations.find(s => s.id === id) ?? null);
+  }, [simulations]);
+
+  const toggleSelect = useCallback((id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds([]);
+    setIsComparing(false);
+  }, []);
+
+  // Keep the order of the list; removed simulations drop out of the selection.
+  const selectedSimulations = useMemo(
+    () => simulations.filter(sim => selectedIds.includes(sim.id)),
+    [simulations, selectedIds]
+  );
+
+  const exportPortfolio = useCallback(() => {
+    downloadPortfolio(simulations);
+  }, [simulations]);
+
+  const readImportFile = useCallback(async (file: File) => {
+    const result = parsePortfolioBundle(await file.text());
+    setPendingImport({ fileName: file.name, ...result });
+  }, []);
+
+  const confirmImport = useCallback((mode: PortfolioImportMode) => {
+    if (!pendingImport) return;
+    const imported = pendingImport.simulations;
+    if (mode === 'replace') {
+      commit('Replace portfolio', imported);
+      // Persisted input values of the old and incoming cards would shadow the imported data.
+      if (typeof window !== 'undefined') {
+        [...simulations, ...imported].forEach(sim => window.localStorage.removeItem(getCardValuesKey(sim.id)));
+      }
+    } else {
+      commit('Import portfolio', prev => mergeSimulations(prev, imported));
+    }
+    setPendingImport(null);
+  }, [pendingImport, simulations, commit]);
+
+  const cancelImport = useCallback(() => setPendingImport(null), []);
+
+  const addSharedSimulation = useCallback((simulation: Simulation) => {
+    commit('Add shared simulation', prev => [simulation, ...prev]);
+    setNewlyCreatedSimId(simulation.id);
+    setSharedLink(null);
+    setPreviewSimulation(null);
+  }, [commit]);
+
+  const previewSharedSimulation = useCallback(() => {
+    setPreviewSimulation(sharedLink?.simulation ?? null);
+    setSharedLink(null);
+  }, [sharedLink]);
+
+  const closeSharedLink = useCallback(() => setSharedLink(null), []);
+  const closePreview = useCallback(() => setPreviewSimulation(null), []);
 
   return (
     <div className="min-h-screen font-sans">
       <div className="container mx-auto p-4 md:p-8">
-        <Header onAddSimulation={addSimulation} />
+        <Header
+          onAddSimulation={() => setIsPickingTemplate(true)}
+          onExport={exportPortfolio}
+          onImport={readImportFile}
+          onOpenTokens={() => setIsEditingTokens(true)}
+          canExport={simulations.length > 0}
+        />
         <main>
+          <RecoveryNotice quarantine={quarantine} onDismiss={dismissQuarantine} onDiscard={discardQuarantine} />
+          <PortfolioDashboard simulations={simulations} />
+          {selectedSimulations.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-6 px-4 py-3 rounded-xl border border-slate-700 bg-slate-900/70 animate-fade-in">
+              <span className="text-sm text-slate-300">
+                {selectedSimulations.length} simulation{selectedSimulations.length === 1 ? '' : 's'} selected
+              </span>
+              <div className="flex gap-2">
+                <Button onClick={() => setIsComparing(true)} variant="primary" size="sm" disabled={selectedSimulations.length < 2}>
+                  Compare
+                </Button>
+                <Button onClick={clearSelection} variant="secondary" size="sm">Clear</Button>
+              </div>
+            </div>
+          )}
+          {isComparing && selectedSimulations.length >= 2 && (
+            <ComparisonView simulations={selectedSimulations} onClose={() => setIsComparing(false)} />
+          )}
+          {previewSimulation && (
+            <section className="mb-6 p-4 rounded-xl border border-cyan-500/40 bg-cyan-500/5 animate-fade-in" aria-label="Shared simulation preview">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <div>
+                  <h2 className="font-semibold text-cyan-300">Shared simulation preview</h2>
+                  <p className="text-sm text-slate-400">Read-only. Nothing is saved until you add it.</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={() => addSharedSimulation(previewSimulation)} variant="primary" size="sm">Add to My Simulations</Button>
+                  <Button onClick={closePreview} variant="secondary" size="sm">Close Preview</Button>
+                </div>
+              </div>
+              <SimulationCard
+                key={previewSimulation.id}
+                simulation={previewSimulation}
+                onUpdate={() => undefined}
+                onRemove={closePreview}
+                defaultExpanded
+                readOnly
+              />
+            </section>
+          )}
           <SimulationList
             simulations={simulations}
             updateSimulation={updateSimulation}
+            refreshSimulation={refreshSimulation}
             removeSimulation={removeSimulation}
+            duplicateSimulation={duplicateSimulation}
+            saveAsTemplate={startSaveTemplate}
+            selectedIds={selectedIds}
+            onToggleSelect={toggleSelect}
             newlyCreatedSimId={newlyCreatedSimId}
           />
         </main>
       </div>
+      {pendingImport && (
+        <ImportPortfolioDialog
+          pendingImport={pendingImport}
+          existingCount={simulations.length}
+          onConfirm={confirmImport}
+          onCancel={cancelImport}
+        />
+      )}
+      {isPickingTemplate && (
+        <TemplatePickerDialog
+          templates={templates}
+          simulations={simulations}
+          onCreate={createSimulation}
+          onDeleteTemplate={deleteTemplate}
+          onCancel={() => setIsPickingTemplate(false)}
+        />
+      )}
+      {templateSource && (
+        <SaveTemplateDialog
+          simulation={templateSource}
+          onSave={saveTemplate}
+          onCancel={() => setTemplateSource(null)}
+        />
+      )}
+      {isEditingTokens && (
+        <TokenRegistryDialog onClose={() => setIsEditingTokens(false)} />
+      )}
+      {toast && (
+        <Toast key={toast.id} message={toast.message} actionLabel={toast.actionLabel} onAction={toast.onAction} onDismiss={dismissToast} />
+      )}
+      {sharedLink && (
+        <SharedSimulationDialog
+          sharedLink={sharedLink}
+          onAdd={() => sharedLink.simulation && addSharedSimulation(sharedLink.simulation)}
+          onPreview={previewSharedSimulation}
+          onCancel={closeSharedLink}
+        />
+      )}
     </div>
   );
 };
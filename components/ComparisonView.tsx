@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { type Simulation } from '../types';
+import { type SimulationResults, calculateSimulation, buildTimeline } from '../services/simulationEngine';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Chart, { type ChartSeries, SERIES_COLORS } from './ui/Chart';
+
+interface ComparisonViewProps {
+  simulations: Simulation[];
+  onClose: () => void;
+}
+
+interface MetricRow {
+  label: string;
+  value: (results: SimulationResults) => number;
+  format: 'currency' | 'percent';
+}
+
+// Higher is better for every metric: losses and costs are negative numbers.
+const METRIC_ROWS: MetricRow[] = [
+  { label: 'Earned Fees', value: r => r.earnedFees, format: 'currency' },
+  { label: 'Impermanent Loss', value: r => r.impermanentLoss, format: 'currency' },
+  { label: 'Impermanent Loss (%)', value: r => r.impermanentLossPct, format: 'percent' },
+  { label: 'Range Reset Costs', value: r => r.rangeResetCosts, format: 'currency' },
+  { label: 'Transaction Costs', value: r => r.totalTransactionCosts, format: 'currency' },
+  { label: 'LP Net Return', value: r => r.lpNetReturn, format: 'currency' },
+  { label: 'LP Net Return (%)', value: r => r.lpNetReturnPct, format: 'percent' },
+  { label: 'Short P&L', value: r => r.shortPnl, format: 'currency' },
+  { label: 'Funding Cost', value: r => r.fundingPnl, format: 'currency' },
+  { label: 'Hedge Trading Costs', value: r => r.hedgeCosts, format: 'currency' },
+  { label: 'Total Net Return', value: r => r.totalNetReturn, format: 'currency' },
+  { label: 'Total Net Return (%)', value: r => r.totalNetReturnPct, format: 'percent' },
+  { label: 'Final Total Value', value: r => r.finalTotalValue, format: 'currency' },
+];
+
+const formatMetric = (value: number, format: MetricRow['format']) =>
+  format === 'currency'
+    ? value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+    : `${value.toFixed(2)}%`;
+
+export const getSimulationLabel = (sim: Simulation) => `${sim.protocol} ${sim.tokenA}/${sim.tokenB}`;
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ simulations, onClose }) => {
+  const columns = useMemo(() => simulations.map((sim, index) => ({
+    sim,
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+    results: calculateSimulation(sim),
+  })), [simulations]);
+
+  const series: ChartSeries[] = useMemo(() => columns.map(({ sim, color }, index) => ({
+    label: `${index + 1}. ${getSimulationLabel(sim)}`,
+    color,
+    points: buildTimeline(sim).map(point => ({ day: point.day, value: point.totalValue })),
+  })), [columns]);
+
+  return (
+    <Card className="mb-6 animate-fade-in">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-slate-100">Compare Simulations</h2>
+        <Button onClick={onClose} variant="secondary" size="sm">Close</Button>
+      </div>
+
+      <div className="overflow-x-auto -mx-2">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400 border-b border-slate-700">
+              <th className="text-left font-medium py-2 px-2">Metric</th>
+              {columns.map(({ sim, color }, index) => (
+                <th key={sim.id} className="text-right font-medium py-2 px-2 whitespace-nowrap">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: color }}></span>
+                  {index + 1}. {getSimulationLabel(sim)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {METRIC_ROWS.map(row => {
+              const values = columns.map(({ results }) => row.value(results));
+              const best = Math.max(...values);
+              const worst = Math.min(...values);
+              const hasSpread = columns.length > 1 && best !== worst;
+              return (
+                <tr key={row.label} className="border-b border-slate-800">
+                  <td className="py-2 px-2 text-slate-400 whitespace-nowrap">{row.label}</td>
+                  {values.map((value, i) => {
+                    const highlight = !hasSpread ? 'text-slate-200'
+                      : value === best ? 'text-green-400 font-semibold bg-green-500/10'
+                      : value === worst ? 'text-red-400 font-semibold bg-red-500/10'
+                      : 'text-slate-200';
+                    return (
+                      <td key={columns[i].sim.id} className={`py-2 px-2 text-right font-mono whitespace-nowrap ${highlight}`}>
+                        {formatMetric(value, row.format)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="text-md font-semibold text-slate-400 mb-2">Total Value Over Time</h3>
+        <div className="h-64 md:h-80 bg-slate-800/30 rounded-lg p-2">
+          <Chart series={series} title="Total value comparison" />
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default ComparisonView;
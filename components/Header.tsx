@@ -1,13 +1,27 @@
-
-import React from 'react';
+import React, { useRef } from 'react';
 import Button from './ui/Button';
 import PlusIcon from './icons/PlusIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import UploadIcon from './icons/UploadIcon';
+import CogIcon from './icons/CogIcon';
 
 interface HeaderProps {
   onAddSimulation: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onOpenTokens: () => void;
+  canExport: boolean;
 }
 
-const Header: React.FC<HeaderProps> = ({ onAddSimulation }) => {
+const Header: React.FC<HeaderProps> = ({ onAddSimulation, onExport, onImport, onOpenTokens, canExport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
   return (
     <header className="sticky top-0 z-10 -mx-8 px-8 py-4 mb-8 bg-slate-950/70 backdrop-blur-lg">
       <div className="container mx-auto flex items-center justify-between border-b border-slate-700/50 pb-4">
@@ -17,13 +31,28 @@ const Header: React.FC<HeaderProps> = ({ onAddSimulation }) => {
           </h1>
           <p className="text-slate-400 mt-1">Model your liquidity provider positions.</p>
         </div>
-        <Button onClick={onAddSimulation} variant="primary">
-          <PlusIcon className="w-5 h-5 mr-2" />
-          New Sim
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button onClick={onOpenTokens} variant="secondary" aria-label="Token Registry" title="Token registry">
+            <CogIcon className="w-5 h-5 md:mr-2" />
+            <span className="hidden md:inline">Tokens</span>
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} aria-label="Portfolio file" />
+          <Button onClick={() => fileInputRef.current?.click()} variant="secondary" aria-label="Import Portfolio">
+            <UploadIcon className="w-5 h-5 md:mr-2" />
+            <span className="hidden md:inline">Import</span>
+          </Button>
+          <Button onClick={onExport} variant="secondary" disabled={!canExport} aria-label="Export Portfolio">
+            <DownloadIcon className="w-5 h-5 md:mr-2" />
+            <span className="hidden md:inline">Export</span>
+          </Button>
+          <Button onClick={onAddSimulation} variant="primary">
+            <PlusIcon className="w-5 h-5 mr-2" />
+            New Sim
+          </Button>
+        </div>
       </div>
     </header>
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { type Simulation } from '../types';
+import { type PortfolioImportMode, PORTFOLIO_VERSION } from '../services/portfolio';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+
+export interface PendingImport {
+  fileName: string;
+  simulations: Simulation[];
+  errors: string[];
+  sourceVersion: number | null;
+}
+
+interface ImportPortfolioDialogProps {
+  pendingImport: PendingImport;
+  existingCount: number;
+  onConfirm: (mode: PortfolioImportMode) => void;
+  onCancel: () => void;
+}
+
+const ImportPortfolioDialog: React.FC<ImportPortfolioDialogProps> = ({ pendingImport, existingCount, onConfirm, onCancel }) => {
+  const { fileName, simulations, errors, sourceVersion } = pendingImport;
+  const isValid = errors.length === 0;
+
+  return (
+    <Modal
+      title="Import Portfolio"
+      onClose={onCancel}
+      footer={isValid ? (
+        <>
+          <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+          <Button onClick={() => onConfirm('replace')} variant="danger" size="sm" disabled={existingCount === 0}>Replace All</Button>
+          <Button onClick={() => onConfirm('merge')} variant="primary" size="sm">Merge</Button>
+        </>
+      ) : (
+        <Button onClick={onCancel} variant="secondary" size="sm">Close</Button>
+      )}
+    >
+      <p className="text-sm text-slate-400 mb-3 font-mono truncate">{fileName}</p>
+      {isValid ? (
+        <div className="space-y-2 text-sm">
+          <p>
+            Found <span className="font-semibold text-slate-100">{simulations.length}</span> simulation{simulations.length === 1 ? '' : 's'}
+            {sourceVersion !== null && sourceVersion < PORTFOLIO_VERSION ? ' (upgraded from an older format)' : ''}.
+          </p>
+          <p className="text-slate-400">
+            <span className="font-semibold text-slate-300">Merge</span> adds them to your {existingCount} existing simulation{existingCount === 1 ? '' : 's'}, giving new ids to any that clash.
+            {' '}<span className="font-semibold text-slate-300">Replace All</span> discards the existing simulations first.
+          </p>
+        </div>
+      ) : (
+        <div role="alert">
+          <p className="text-sm text-red-400 mb-2">The file was rejected:</p>
+          <ul className="text-sm text-red-400 list-disc list-inside space-y-0.5 font-mono">
+            {errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ImportPortfolioDialog;
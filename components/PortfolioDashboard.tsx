@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { type Simulation } from '../types';
+import { summarizePortfolio } from '../services/portfolioAnalytics';
+import Card from './ui/Card';
+import Stat from './ui/Stat';
+
+interface PortfolioDashboardProps {
+  simulations: Simulation[];
+}
+
+const formatCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+const signColor = (value: number) => value < 0 ? 'text-red-400' : 'text-green-400';
+
+const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ simulations }) => {
+  const summary = useMemo(() => summarizePortfolio(simulations), [simulations]);
+
+  if (simulations.length === 0) return null;
+
+  const lpCapital = summary.capitalInRange + summary.capitalOutOfRange;
+  const inRangePct = lpCapital > 0 ? (summary.capitalInRange / lpCapital) * 100 : 0;
+
+  return (
+    <Card className="mb-6">
+      <div className="flex justify-between items-baseline mb-4">
+        <h2 className="text-xl font-bold text-slate-100">Portfolio</h2>
+        <span className="text-sm text-slate-400">{summary.simulationCount} simulation{summary.simulationCount === 1 ? '' : 's'}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat label="Capital Deployed" value={formatCurrency(summary.capitalDeployed)} />
+        <Stat label="Current Value" value={formatCurrency(summary.currentValue)} />
+        <Stat label="Earned Fees" value={formatCurrency(summary.earnedFees)} valueColor="text-green-400" />
+        <Stat label="Impermanent Loss" value={formatCurrency(summary.impermanentLoss)} valueColor={signColor(summary.impermanentLoss)} />
+        <Stat label="Hedge P&L" value={formatCurrency(summary.hedgePnl)} subValue="(incl. funding & fees)" valueColor={signColor(summary.hedgePnl)} />
+        <Stat label="Total Net Return" value={formatCurrency(summary.totalNetReturn)} subValue={`(${summary.totalNetReturnPct.toFixed(2)}%)`} valueColor={signColor(summary.totalNetReturn)} className="col-span-2 md:col-span-3" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+        <div>
+          <h3 className="text-md font-semibold text-slate-400 mb-2 border-b border-slate-700/50 pb-1">Capital in Range</h3>
+          <div className="h-2 bg-red-500/60 rounded-full w-full overflow-hidden mt-3" aria-label={`${inRangePct.toFixed(1)}% of LP capital in range`}>
+            <div className="h-full bg-cyan-400 rounded-full" style={{ width: `${inRangePct}%` }}></div>
+          </div>
+          <div className="flex justify-between text-sm mt-2">
+            <span className="text-cyan-400">In range: {formatCurrency(summary.capitalInRange)}</span>
+            <span className="text-red-400">Out of range: {formatCurrency(summary.capitalOutOfRange)}</span>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-md font-semibold text-slate-400 mb-2 border-b border-slate-700/50 pb-1">Net Token Exposure</h3>
+          <table className="w-full text-sm">
+            <tbody>
+              {summary.exposures.map(exposure => (
+                <tr key={exposure.symbol} className="border-b border-slate-800 last:border-0">
+                  <td className="py-1.5 font-semibold text-slate-300">{exposure.symbol}</td>
+                  <td className={`py-1.5 text-right font-mono ${exposure.units < 0 ? 'text-red-400' : 'text-slate-200'}`}>
+                    {exposure.units.toLocaleString('en-US', { maximumFractionDigits: 4 })}
+                  </td>
+                  <td className="py-1.5 text-right font-mono text-slate-400">{formatCurrency(exposure.value)}</td>
+                  <td className="py-1.5 text-right text-xs text-slate-500 w-16">{exposure.units < 0 ? 'short' : 'long'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default PortfolioDashboard;
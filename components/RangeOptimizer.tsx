@@ -0,0 +1,147 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { type Simulation } from '../types';
+import { type OptimizerObjective, type OptimizerOptions, type RangeCandidate, DEFAULT_OPTIMIZER_OPTIONS } from '../services/rangeOptimizer';
+import { getMonteCarloOptions } from '../services/monteCarlo';
+import { useRangeOptimizer } from '../hooks/useRangeOptimizer';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Button from './ui/Button';
+import Stat from './ui/Stat';
+import ScatterChart, { type ScatterPoint } from './ui/ScatterChart';
+import SyncIcon from './icons/SyncIcon';
+
+interface RangeOptimizerProps {
+  simulation: Simulation;
+  onApply: (lowerPriceBound: number, upperPriceBound: number) => void;
+}
+
+const OBJECTIVES: { id: OptimizerObjective; label: string; axisLabel: string }[] = [
+  { id: 'maxReturn', label: 'Maximize expected return', axisLabel: 'Expected Net Return ($)' },
+  { id: 'maxFeeApr', label: 'Maximize fee APR (min. time in range)', axisLabel: 'Fee APR (%)' },
+  { id: 'minIlDrawdown', label: 'Minimize IL drawdown', axisLabel: 'Expected IL Drawdown (%)' },
+];
+
+const formatCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const candidateKey = (candidate: RangeCandidate) => `${candidate.pctLower}:${candidate.pctUpper}`;
+
+const RangeOptimizer: React.FC<RangeOptimizerProps> = ({ simulation, onApply }) => {
+  const optimizer = useRangeOptimizer();
+  const [objective, setObjective] = useState<OptimizerObjective>(DEFAULT_OPTIMIZER_OPTIONS.objective);
+  const [volatility, setVolatility] = useState(() => getMonteCarloOptions(simulation).volatilityA.toString());
+  const [minProbInRange, setMinProbInRange] = useState(DEFAULT_OPTIMIZER_OPTIONS.minProbInRange.toString());
+  const [paths, setPaths] = useState(DEFAULT_OPTIMIZER_OPTIONS.paths.toString());
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const result = optimizer.result;
+  useEffect(() => {
+    setSelectedKey(result?.best ? candidateKey(result.best) : null);
+  }, [result]);
+
+  const run = () => {
+    const options: OptimizerOptions = {
+      objective,
+      volatility: parseFloat(volatility) || DEFAULT_OPTIMIZER_OPTIONS.volatility,
+      minProbInRange: parseFloat(minProbInRange) || 0,
+      paths: parseInt(paths, 10) || DEFAULT_OPTIMIZER_OPTIONS.paths,
+      seed: getMonteCarloOptions(simulation).seed,
+    };
+    optimizer.run(simulation, options);
+  };
+
+  const selected = result?.candidates.find(candidate => candidateKey(candidate) === selectedKey) ?? null;
+  const resultObjective = OBJECTIVES.find(o => o.id === result?.objective) ?? OBJECTIVES[0];
+
+  const points: ScatterPoint[] = useMemo(() => (result?.candidates ?? []).map(candidate => {
+    const key = candidateKey(candidate);
+    const isBest = !!result?.best && candidateKey(result.best) === key;
+    return {
+      id: key,
+      x: candidate.probInRange * 100,
+      y: candidate.score,
+      color: isBest ? '#4ade80' : key === selectedKey ? '#facc15' : '#22d3ee',
+      highlighted: isBest || key === selectedKey,
+      dimmed: !candidate.feasible,
+      tooltip: (
+        <>
+          <p className="font-bold mb-1">-{candidate.pctLower}% / +{candidate.pctUpper}%</p>
+          <p>Expected return: <span className="font-semibold">{formatCurrency(candidate.expectedReturn)}</span></p>
+          <p>Fee APR: <span className="font-semibold">{candidate.feeApr.toFixed(2)}%</span></p>
+          <p>IL drawdown: <span className="font-semibold">{candidate.ilDrawdownPct.toFixed(2)}%</span></p>
+          {!candidate.feasible && <p className="text-red-400 mt-1">Below the time-in-range target</p>}
+        </>
+      ),
+    };
+  }), [result, selectedKey]);
+
+  return (
+    <div className="animate-fade-in">
+      <p className="text-sm text-slate-400 mb-4">
+          Tries a grid of ranges around the initial price on the same simulated price paths and picks the best one for the chosen objective.
+          {objective === 'maxFeeApr' && simulation.feeMode !== 'volume' && ' Fee APR is most meaningful with the volume-based fee model, since a fixed APR ignores range width.'}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="col-span-2">
+            <Select label="Objective" value={objective} onChange={e => setObjective(e.target.value as OptimizerObjective)}>
+              {OBJECTIVES.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </Select>
+          </div>
+          <Input label={`${simulation.tokenA} Volatility (%)`} type="number" step="any" min="0" value={volatility} onChange={e => setVolatility(e.target.value)} />
+          <Input label="Paths" type="number" step="1" min="1" value={paths} onChange={e => setPaths(e.target.value)} />
+          {objective === 'maxFeeApr' && (
+            <Input label="Min. Time in Range (%)" type="number" step="any" min="0" max="100" value={minProbInRange} onChange={e => setMinProbInRange(e.target.value)} />
+          )}
+      </div>
+      <div className="mt-4">
+          <Button onClick={run} disabled={optimizer.isRunning} className="w-full md:w-auto" variant="secondary">
+              <SyncIcon className={`w-5 h-5 mr-2 ${optimizer.isRunning ? 'animate-spin' : ''}`} />
+              {optimizer.isRunning ? 'Optimizing...' : 'Suggest Range'}
+          </Button>
+      </div>
+      {optimizer.error && (
+        <p className="mt-3 text-sm text-red-400">{optimizer.error}</p>
+      )}
+      {result && result.candidates.length === 0 && (
+        <p className="mt-3 text-sm text-amber-400">Set initial prices, an investment and a duration to optimize the range.</p>
+      )}
+      {result && result.candidates.length > 0 && (
+        <div className="mt-4">
+          {!result.best && (
+            <p className="mb-3 text-sm text-amber-400">No range stays in range often enough. Lower the time-in-range target or the volatility.</p>
+          )}
+          {selected && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label={selected === result.best ? 'Suggested Range' : 'Selected Range'} value={`-${selected.pctLower}% / +${selected.pctUpper}%`} subValue={`${selected.lowerPriceBound.toPrecision(5)} – ${selected.upperPriceBound.toPrecision(5)}`} />
+                <Stat label="Expected Net Return" value={formatCurrency(selected.expectedReturn)} valueColor={selected.expectedReturn < 0 ? 'text-red-400' : 'text-green-400'} />
+                <Stat label="Fee APR" value={`${selected.feeApr.toFixed(2)}%`} valueColor="text-green-400" />
+                <Stat label="Stays in Range" value={`${(selected.probInRange * 100).toFixed(1)}%`} subValue={`IL drawdown ${selected.ilDrawdownPct.toFixed(2)}%`} />
+            </div>
+          )}
+          <div className="mt-4">
+            <h4 className="text-md font-semibold text-slate-400 mb-2">Candidate Frontier</h4>
+            <div className="h-64 md:h-80 bg-slate-800/30 rounded-lg p-2">
+              <ScatterChart
+                points={points}
+                xLabel="Probability of Staying in Range (%)"
+                yLabel={resultObjective.axisLabel}
+                formatX={v => `${v.toFixed(0)}%`}
+                formatY={v => result.objective === 'maxReturn' ? v.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }) : `${v.toFixed(1)}%`}
+                onPointClick={setSelectedKey}
+              />
+            </div>
+            <p className="text-xs text-slate-500 mt-1">Click a point to inspect it. Faded points miss the time-in-range target.</p>
+          </div>
+          {selected && (
+            <div className="mt-4">
+              <Button onClick={() => onApply(selected.lowerPriceBound, selected.upperPriceBound)} className="w-full md:w-auto">
+                  Apply Range
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RangeOptimizer;
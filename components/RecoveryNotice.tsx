@@ -0,0 +1,39 @@
+import React from 'react';
+import { type QuarantinedRecord } from '../services/storage';
+import { downloadJson } from '../services/download';
+import Button from './ui/Button';
+
+interface RecoveryNoticeProps {
+  quarantine: QuarantinedRecord[];
+  onDismiss: () => void;
+  onDiscard: () => void;
+}
+
+const RecoveryNotice: React.FC<RecoveryNoticeProps> = ({ quarantine, onDismiss, onDiscard }) => {
+  const pending = quarantine.filter(record => !record.acknowledged);
+  if (pending.length === 0) return null;
+
+  const download = () => downloadJson(quarantine, `lp-simulator-quarantine-${new Date().toISOString().split('T')[0]}.json`);
+
+  return (
+    <div className="mb-6 p-4 rounded-xl border border-yellow-500/40 bg-yellow-500/10 animate-fade-in" role="alert">
+      <h2 className="font-semibold text-yellow-300">
+        {pending.length} saved simulation{pending.length === 1 ? '' : 's'} could not be loaded
+      </h2>
+      <p className="text-sm text-slate-300 mt-1">
+        The entries were damaged or incomplete, so they were set aside instead of being deleted. Download them to inspect or repair, then import the fixed file.
+      </p>
+      <ul className="mt-2 text-xs text-slate-400 font-mono list-disc list-inside space-y-0.5">
+        {pending.slice(0, 5).map((record, i) => <li key={i}>{record.errors[0]}</li>)}
+        {pending.length > 5 && <li>...and {pending.length - 5} more</li>}
+      </ul>
+      <div className="flex flex-wrap gap-2 mt-3">
+        <Button onClick={download} variant="secondary" size="sm">Download Quarantined Data</Button>
+        <Button onClick={onDismiss} variant="secondary" size="sm">Dismiss</Button>
+        <Button onClick={onDiscard} variant="danger" size="sm">Discard</Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryNotice;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { type Simulation } from '../types';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface SaveTemplateDialogProps {
+  simulation: Simulation;
+  onSave: (name: string) => void;
+  onCancel: () => void;
+}
+
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ simulation, onSave, onCancel }) => {
+  const [name, setName] = useState(`${simulation.protocol} ${simulation.tokenA}/${simulation.tokenB}`);
+  const trimmed = name.trim();
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (trimmed) onSave(trimmed);
+  };
+
+  return (
+    <Modal
+      title="Save as Template"
+      onClose={onCancel}
+      footer={
+        <>
+          <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+          <Button type="submit" form="save-template-form" variant="primary" size="sm" disabled={!trimmed}>Save Template</Button>
+        </>
+      }
+    >
+      <form id="save-template-form" onSubmit={save} className="space-y-2">
+        <Input label="Template Name" value={name} onChange={e => setName(e.target.value)} autoFocus />
+        <p className="text-xs text-slate-500">
+          Keeps the settings of this simulation and its range as a percentage around the price. The start date, price history, scenarios and funding schedule are not saved.
+        </p>
+      </form>
+    </Modal>
+  );
+};
+
+export default SaveTemplateDialog;
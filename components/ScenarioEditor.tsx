@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { type Simulation, type ProjectionScenario } from '../types';
+import { createDefaultScenarios, createScenarioFromSimulation } from '../services/scenarios';
+import Input from './ui/Input';
+import Button from './ui/Button';
+import TrashIcon from './icons/TrashIcon';
+
+interface ScenarioEditorProps {
+  simulation: Simulation;
+  onChange: (scenarios: ProjectionScenario[]) => void;
+}
+
+type NumericField = 'priceA' | 'priceB' | 'duration' | 'apr';
+type DraftField = 'name' | NumericField;
+
+const OPTIONAL_FIELDS: NumericField[] = ['duration', 'apr'];
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ simulation, onChange }) => {
+  const scenarios = simulation.scenarios ?? [];
+  // Text being typed into a field, kept until the field loses focus so "1." or "" survive re-renders.
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const draftKey = (id: string, field: DraftField) => `${id}:${field}`;
+
+  const updateScenario = (id: string, changes: Partial<ProjectionScenario>) => {
+    onChange(scenarios.map(scenario => (scenario.id === id ? { ...scenario, ...changes } : scenario)));
+  };
+
+  const handleChange = (scenario: ProjectionScenario, field: DraftField, value: string) => {
+    setDrafts(prev => ({ ...prev, [draftKey(scenario.id, field)]: value }));
+    if (field === 'name') {
+      updateScenario(scenario.id, { name: value });
+      return;
+    }
+    const numValue = parseFloat(value);
+    if (!isNaN(numValue)) {
+      updateScenario(scenario.id, { [field]: numValue });
+    } else if (value === '' && OPTIONAL_FIELDS.includes(field)) {
+      updateScenario(scenario.id, { [field]: undefined });
+    }
+  };
+
+  const clearDraft = (scenario: ProjectionScenario, field: DraftField) => () => {
+    setDrafts(prev => {
+      const { [draftKey(scenario.id, field)]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const fieldValue = (scenario: ProjectionScenario, field: DraftField): string =>
+    drafts[draftKey(scenario.id, field)] ?? scenario[field]?.toString() ?? '';
+
+  const fieldProps = (scenario: ProjectionScenario, field: DraftField) => ({
+    value: fieldValue(scenario, field),
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => handleChange(scenario, field, e.target.value),
+    onBlur: clearDraft(scenario, field),
+  });
+
+  return (
+    <div>
+      {scenarios.length > 0 && (
+        <div className="space-y-3">
+          {scenarios.map((scenario, index) => (
+            <div key={scenario.id} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end p-3 bg-slate-800/50 rounded-lg">
+              <Input label="Scenario" id={`scenario-name-${scenario.id}`} hideLabel={index > 0} placeholder="Name" {...fieldProps(scenario, 'name')} />
+              <Input label={`End ${simulation.tokenA} Price`} id={`scenario-price-a-${scenario.id}`} hideLabel={index > 0} type="number" step="any" min="0" {...fieldProps(scenario, 'priceA')} />
+              <Input label={`End ${simulation.tokenB} Price`} id={`scenario-price-b-${scenario.id}`} hideLabel={index > 0} type="number" step="any" min="0" {...fieldProps(scenario, 'priceB')} />
+              <Input label="Days" id={`scenario-duration-${scenario.id}`} hideLabel={index > 0} type="number" step="any" min="0" placeholder={simulation.duration.toString()} {...fieldProps(scenario, 'duration')} />
+              <Input label="APR (%)" id={`scenario-apr-${scenario.id}`} hideLabel={index > 0} type="number" step="any" placeholder={simulation.apr.toString()} disabled={simulation.feeMode === 'volume'} title={simulation.feeMode === 'volume' ? 'Fees follow the pool volume' : undefined} {...fieldProps(scenario, 'apr')} />
+              <Button onClick={() => onChange(scenarios.filter(s => s.id !== scenario.id))} variant="danger" size="sm" className="!p-2 justify-self-start mb-1" aria-label={`Remove scenario ${scenario.name}`}>
+                <TrashIcon className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2 mt-3">
+        <Button onClick={() => onChange([...scenarios, createScenarioFromSimulation(simulation, `Scenario ${scenarios.length + 1}`)])} variant="secondary" size="sm">
+          Add Scenario
+        </Button>
+        {scenarios.length === 0 && (
+          <Button onClick={() => onChange(createDefaultScenarios(simulation))} variant="secondary" size="sm">
+            Add Bear / Base / Bull
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
@@ -0,0 +1,150 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { type Simulation } from '../types';
+import { type SensitivityAxis, type SensitivityCell, type SensitivityOptions, DEFAULT_SENSITIVITY_OPTIONS, MAX_SENSITIVITY_RESOLUTION } from '../services/sensitivity';
+import { useSensitivity } from '../hooks/useSensitivity';
+import Input from './ui/Input';
+import Select from './ui/Select';
+
+interface SensitivityHeatmapProps {
+  simulation: Simulation;
+  // Without it the grid is view-only.
+  onApply?: (changes: Partial<Simulation>) => void;
+}
+
+// Waits for typing to pause before recomputing the grid.
+const RECOMPUTE_DELAY_MS = 300;
+// Cell labels get too cramped beyond this many columns; the tooltip still has the value.
+const MAX_LABELLED_COLUMNS = 16;
+
+const AXIS_LABELS: Record<SensitivityAxis, string> = { duration: 'Duration (days)', apr: 'APR (%)' };
+
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(0)}%`;
+const formatYValue = (axis: SensitivityAxis, value: number) => axis === 'apr' ? `${value.toFixed(1)}%` : `${value}d`;
+
+// Red for losses, green for gains, stronger the further the return is from zero.
+const cellColor = (value: number, maxAbs: number) => {
+  const strength = maxAbs > 0 ? Math.min(1, Math.abs(value) / maxAbs) : 0;
+  const alpha = (0.1 + 0.75 * strength).toFixed(2);
+  return value >= 0 ? `rgba(74, 222, 128, ${alpha})` : `rgba(248, 113, 113, ${alpha})`;
+};
+
+const nearestIndex = (values: number[], target: number) => values.reduce(
+  (best, value, i) => Math.abs(value - target) < Math.abs(values[best] - target) ? i : best, 0
+);
+
+const SensitivityHeatmap: React.FC<SensitivityHeatmapProps> = ({ simulation, onApply }) => {
+  const sensitivity = useSensitivity();
+  const [yAxis, setYAxis] = useState<SensitivityAxis>(DEFAULT_SENSITIVITY_OPTIONS.yAxis);
+  const [priceChangeMin, setPriceChangeMin] = useState(DEFAULT_SENSITIVITY_OPTIONS.priceChangeMin.toString());
+  const [priceChangeMax, setPriceChangeMax] = useState(DEFAULT_SENSITIVITY_OPTIONS.priceChangeMax.toString());
+  const [columns, setColumns] = useState(DEFAULT_SENSITIVITY_OPTIONS.columns.toString());
+  const [rows, setRows] = useState(DEFAULT_SENSITIVITY_OPTIONS.rows.toString());
+
+  // A fixed APR does not apply when fees follow the pool volume.
+  const effectiveAxis: SensitivityAxis = simulation.feeMode === 'volume' ? 'duration' : yAxis;
+
+  const options: SensitivityOptions = useMemo(() => ({
+    yAxis: effectiveAxis,
+    priceChangeMin: parseFloat(priceChangeMin) || 0,
+    priceChangeMax: parseFloat(priceChangeMax) || 0,
+    columns: parseInt(columns, 10) || DEFAULT_SENSITIVITY_OPTIONS.columns,
+    rows: parseInt(rows, 10) || DEFAULT_SENSITIVITY_OPTIONS.rows,
+  }), [effectiveAxis, priceChangeMin, priceChangeMax, columns, rows]);
+
+  const { run } = sensitivity;
+  useEffect(() => {
+    const timer = window.setTimeout(() => run(simulation, options), RECOMPUTE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [simulation, options, run]);
+
+  const grid = sensitivity.grid;
+  const maxAbs = useMemo(
+    () => Math.max(0, ...(grid?.cells.flat().map(cell => Math.abs(cell.totalNetReturnPct)) ?? [])),
+    [grid]
+  );
+
+  // The cell closest to the card's current end price and duration/APR.
+  const current = useMemo(() => {
+    if (!grid || simulation.initialPriceA <= 0) return null;
+    const priceChange = (simulation.latestPriceA / simulation.initialPriceA - 1) * 100;
+    return {
+      column: nearestIndex(grid.priceChanges, priceChange),
+      row: nearestIndex(grid.yValues, grid.yAxis === 'apr' ? simulation.apr : simulation.duration),
+    };
+  }, [grid, simulation.latestPriceA, simulation.initialPriceA, simulation.apr, simulation.duration]);
+
+  const applyCell = (cell: SensitivityCell) => {
+    onApply?.({ latestPriceA: cell.priceA, [grid?.yAxis ?? 'duration']: cell.yValue });
+  };
+
+  const showLabels = (grid?.priceChanges.length ?? 0) <= MAX_LABELLED_COLUMNS;
+
+  return (
+    <div className="animate-fade-in">
+      <p className="text-sm text-slate-400 mb-4">
+          Total net return for end prices of {simulation.tokenA} relative to its initial price, against {effectiveAxis === 'apr' ? 'the fee APR' : 'the duration'}.{onApply && ' Click a cell to load its values into the card.'}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <Select label="Y Axis" value={effectiveAxis} onChange={e => setYAxis(e.target.value as SensitivityAxis)}>
+            <option value="duration">Duration</option>
+            <option value="apr" disabled={simulation.feeMode === 'volume'}>APR</option>
+          </Select>
+          <Input label={`${simulation.tokenA} Change From (%)`} type="number" step="any" min="-99" value={priceChangeMin} onChange={e => setPriceChangeMin(e.target.value)} />
+          <Input label={`${simulation.tokenA} Change To (%)`} type="number" step="any" value={priceChangeMax} onChange={e => setPriceChangeMax(e.target.value)} />
+          <Input label="Columns" type="number" step="1" min="2" max={MAX_SENSITIVITY_RESOLUTION} value={columns} onChange={e => setColumns(e.target.value)} />
+          <Input label="Rows" type="number" step="1" min="2" max={MAX_SENSITIVITY_RESOLUTION} value={rows} onChange={e => setRows(e.target.value)} />
+      </div>
+      {sensitivity.error && (
+        <p className="mt-3 text-sm text-red-400">{sensitivity.error}</p>
+      )}
+      {grid && (
+        <div className={`mt-4 overflow-x-auto transition-opacity ${sensitivity.isRunning ? 'opacity-60' : ''}`} aria-busy={sensitivity.isRunning}>
+          <div className="grid gap-0.5 min-w-[32rem]" style={{ gridTemplateColumns: `4rem repeat(${grid.priceChanges.length}, minmax(0, 1fr))` }}>
+            {/* Highest duration/APR on top, like a chart's y-axis. */}
+            {[...grid.cells].reverse().map((cells, reversedRow) => {
+              const row = grid.cells.length - 1 - reversedRow;
+              return (
+                <React.Fragment key={grid.yValues[row]}>
+                  <div className="text-xs text-slate-400 font-mono flex items-center justify-end pr-2">{formatYValue(grid.yAxis, grid.yValues[row])}</div>
+                  {cells.map((cell, column) => {
+                    const isCurrent = current?.row === row && current?.column === column;
+                    const description = `${simulation.tokenA} ${formatChange(cell.priceChangePct)} (${cell.priceA.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}), ${formatYValue(grid.yAxis, cell.yValue)}: ${cell.totalNetReturnPct.toFixed(2)}%`;
+                    return (
+                      <button
+                        key={cell.priceChangePct}
+                        type="button"
+                        onClick={() => applyCell(cell)}
+                        disabled={!onApply}
+                        className={`h-8 rounded-sm text-[10px] font-mono text-slate-100 enabled:hover:ring-2 enabled:hover:ring-cyan-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400 ${isCurrent ? 'ring-2 ring-white' : ''}`}
+                        style={{ backgroundColor: cellColor(cell.totalNetReturnPct, maxAbs) }}
+                        title={description}
+                        aria-label={isCurrent ? `${description} (current settings)` : description}
+                      >
+                        {showLabels && cell.totalNetReturnPct.toFixed(0)}
+                      </button>
+                    );
+                  })}
+                </React.Fragment>
+              );
+            })}
+            <div className="text-[10px] text-slate-500 flex items-start justify-end pr-2 pt-1">{grid.yAxis === 'apr' ? 'APR' : 'Days'}</div>
+            {grid.priceChanges.map((change, column) => (
+              <div key={change} className="text-[10px] text-slate-400 font-mono text-center pt-1">
+                {(showLabels || column % 2 === 0) && formatChange(change)}
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-500 mt-2">
+            <span>{AXIS_LABELS[grid.yAxis]} by end-price change of {simulation.tokenA}. Cells show total net return (%); the outlined cell is the current setting.</span>
+            <span className="flex items-center gap-2">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: cellColor(-maxAbs, maxAbs) }}></span>-{maxAbs.toFixed(1)}%
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: cellColor(maxAbs, maxAbs) }}></span>+{maxAbs.toFixed(1)}%
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityHeatmap;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { type PermalinkParseResult } from '../services/permalink';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+
+interface SharedSimulationDialogProps {
+  sharedLink: PermalinkParseResult;
+  onAdd: () => void;
+  onPreview: () => void;
+  onCancel: () => void;
+}
+
+const SharedSimulationDialog: React.FC<SharedSimulationDialogProps> = ({ sharedLink, onAdd, onPreview, onCancel }) => {
+  const { simulation, errors } = sharedLink;
+
+  return (
+    <Modal
+      title="Shared Simulation"
+      onClose={onCancel}
+      footer={simulation ? (
+        <>
+          <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+          <Button onClick={onPreview} variant="secondary" size="sm">Preview</Button>
+          <Button onClick={onAdd} variant="primary" size="sm">Add to My Simulations</Button>
+        </>
+      ) : (
+        <Button onClick={onCancel} variant="secondary" size="sm">Close</Button>
+      )}
+    >
+      {simulation ? (
+        <div className="space-y-2 text-sm">
+          <p>
+            The link contains <span className="font-semibold text-slate-100">{simulation.protocol}</span>
+            {' '}<span className="font-mono text-slate-400">{simulation.tokenA}/{simulation.tokenB}</span>, over {simulation.duration} days from {simulation.startDate}.
+          </p>
+          <p className="text-slate-400">
+            <span className="font-semibold text-slate-300">Add</span> saves it as a new card next to your simulations.
+            {' '}<span className="font-semibold text-slate-300">Preview</span> shows it read-only without saving anything.
+          </p>
+        </div>
+      ) : (
+        <div role="alert">
+          <p className="text-sm text-red-400 mb-2">The link was rejected:</p>
+          <ul className="text-sm text-red-400 list-disc list-inside space-y-0.5 font-mono">
+            {errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default SharedSimulationDialog;
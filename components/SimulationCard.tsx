@@ -1,24 +1,56 @@
-import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import { type Simulation } from '../types';
-import { fetchMockTokenPrices } from '../services/geminiService';
+import React, { useState, useMemo, useCallback, useEffect, useRef, useId } from 'react';
+import { type Simulation, type FeeMode, type HedgeMode, type RangeStrategy } from '../types';
+import { getPriceProvider, listPriceProviders, HTTP_PRICE_PROVIDER_ID, DEFAULT_PRICE_URL_TEMPLATE } from '../services/priceProviders';
+import { type SimulationSnapshot, calculateSimulation, buildTimeline, getPosition } from '../services/simulationEngine';
+import { getHedgeCollateral, getEntryNotional } from '../services/hedging';
+import { getGasCost, getRebalanceGasCost } from '../services/transactionCosts';
+import { calculateScenarios } from '../services/scenarios';
+import { getProtocol, listProtocols, getFeeTier, hasPriceRange, getTickSpacing, snapBound, roundBound, getBoundTick } from '../services/protocols';
+import { parseFundingSchedule, formatFundingSchedule } from '../services/fundingSchedule';
+import { getMonteCarloOptions } from '../services/monteCarlo';
+import { createPermalink } from '../services/permalink';
+import { getCardValuesKey } from '../services/storage';
+import { isAcceptedNumber, isNumericField } from '../services/simulationSchema';
+import { getTokenDefaults, getDefaultShortToken } from '../services/tokens';
+import { AUTO_REFRESH_MINUTES, applyPriceQuote, getElapsedDays } from '../services/tracking';
+import { parsePriceSeries, samplePriceSeries, getStartTimestamp, getPriceSeriesCoverage } from '../services/priceSeries';
+import { useMonteCarlo } from '../hooks/useMonteCarlo';
+import { usePayoff } from '../hooks/usePayoff';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useTokens } from '../hooks/useTokens';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Button from './ui/Button';
 import Stat from './ui/Stat';
 import TrashIcon from './icons/TrashIcon';
+import LinkIcon from './icons/LinkIcon';
+import DuplicateIcon from './icons/DuplicateIcon';
+import BookmarkIcon from './icons/BookmarkIcon';
 import SyncIcon from './icons/SyncIcon';
 import Slider from './ui/Slider';
 import Toggle from './ui/Toggle';
+import Select from './ui/Select';
 import ChevronUpIcon from './icons/ChevronUpIcon';
 import ChevronDownIcon from './icons/ChevronDownIcon';
-import Chart from './ui/Chart';
+import Chart, { type ChartMarker, type ChartSeries, SERIES_COLORS } from './ui/Chart';
+import RangeOptimizer from './RangeOptimizer';
+import SensitivityHeatmap from './SensitivityHeatmap';
+import ScenarioEditor from './ScenarioEditor';
+import PayoffChart from './ui/PayoffChart';
 
 interface SimulationCardProps {
   simulation: Simulation;
   onUpdate: (id: string, updatedSim: Partial<Simulation>) => void;
+  // Receives automatic price refreshes, which are not user edits; falls back to onUpdate.
+  onRefresh?: (id: string, updatedSim: Partial<Simulation>) => void;
   onRemove: (id: string) => void;
   defaultExpanded?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (id: string) => void;
+  onDuplicate?: (id: string) => void;
+  onSaveTemplate?: (id: string) => void;
+  // Shows the card without letting its inputs change, e.g. to preview a shared link.
+  readOnly?: boolean;
 }
 
 // A type for our local string state keys.
@@ -26,6 +58,8 @@ type LocalValuesState = {
   protocol: string;
   tokenA: string;
   tokenB: string;
+  decimalsA: string;
+  decimalsB: string;
   initialPriceA: string;
   initialPriceB: string;
   amountA: string;
@@ -33,6 +67,9 @@ type LocalValuesState = {
   amountB: string;
   valueB: string;
   apr: string;
+  tradeVolume: string;
+  volumeFee: string;
+  poolTvl: string;
   duration: string;
   lowerPriceBound: string;
   upperPriceBound: string;
@@ -41,11 +78,41 @@ type LocalValuesState = {
   startDate: string;
   latestPriceA: string;
   latestPriceB: string;
+  priceProviderUrl: string;
+  rangeResetDelay: string;
+  rangeResetTriggerPct: string;
+  rangeResetSwapFee: string;
+  rangeResetGasCost: string;
+  amplification: string;
+  gasPriceGwei: string;
+  nativeTokenPrice: string;
+  gasUnitsMint: string;
+  gasUnitsCollect: string;
+  collectFrequencyDays: string;
+  gasUnitsRebalance: string;
+  gasUnitsBurn: string;
+  openSlippage: string;
+  volatilityA: string;
+  volatilityB: string;
+  driftA: string;
+  driftB: string;
+  monteCarloPaths: string;
+  monteCarloSeed: string;
   shortAmount: string;
   fundingRate: string;
+  hedgeRebalanceInterval: string;
+  hedgeRebalanceThreshold: string;
+  hedgeLeverage: string;
+  hedgeCollateral: string;
+  hedgeMaintenanceMargin: string;
+  hedgeEntryFee: string;
+  hedgeExitFee: string;
+  fundingSchedule: string;
 };
 type LocalValueKey = keyof LocalValuesState;
 
+// Waits for typing to pause before rebuilding the payoff curve.
+const PAYOFF_DELAY_MS = 300;
 
 const PriceRangeBar: React.FC<{ min: number; max: number; current: number; tokenA: string; tokenB: string; isInRange: boolean; }> = ({ min, max, current, tokenA, tokenB, isInRange }) => {
   const totalRange = max - min;
@@ -87,12 +154,25 @@ const PriceRangeBar: React.FC<{ min: number; max: number; current: number; token
   );
 };
 
-const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, onRemove, defaultExpanded = false }) => {
+const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, onRefresh, onRemove, defaultExpanded = false, isSelected = false, onToggleSelect, onDuplicate, onSaveTemplate, readOnly = false }) => {
   const [isLoadingPrice, setIsLoadingPrice] = useState(false);
+  const [priceError, setPriceError] = useState<string | null>(null);
+  const [seriesErrors, setSeriesErrors] = useState<string[]>([]);
+  const seriesInputRef = useRef<HTMLInputElement>(null);
+  const [fundingErrors, setFundingErrors] = useState<string[]>([]);
+  const fundingInputRef = useRef<HTMLInputElement>(null);
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
   const [focusedInput, setFocusedInput] = useState<LocalValueKey | null>(null);
+  const [isOptimizerOpen, setIsOptimizerOpen] = useState(false);
+  const [isSensitivityOpen, setIsSensitivityOpen] = useState(false);
+  const [linkStatus, setLinkStatus] = useState<'copied' | 'failed' | null>(null);
+  const monteCarlo = useMonteCarlo();
+  const payoff = usePayoff();
+  const tokens = useTokens();
+  const tokenListId = useId();
 
   const getValuesFromSim = useCallback((sim: Simulation): LocalValuesState => {
+    const monteCarloOptions = getMonteCarloOptions(sim);
     const priceRatio = (sim.initialPriceB > 0) ? sim.initialPriceA / sim.initialPriceB : 0;
     const lowerPct = priceRatio > 0 ? (((priceRatio - sim.lowerPriceBound) / priceRatio) * 100) : 0;
     const upperPct = priceRatio > 0 ? (((sim.upperPriceBound - priceRatio) / priceRatio) * 100) : 0;
@@ -101,6 +181,8 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
       protocol: sim.protocol,
       tokenA: sim.tokenA,
       tokenB: sim.tokenB,
+      decimalsA: sim.decimalsA?.toString() ?? '',
+      decimalsB: sim.decimalsB?.toString() ?? '',
       initialPriceA: sim.initialPriceA.toString(),
       initialPriceB: sim.initialPriceB.toString(),
       amountA: sim.amountA?.toString() ?? '',
@@ -108,6 +190,9 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
       amountB: sim.amountB?.toString() ?? '',
       valueB: ((sim.amountB ?? 0) * sim.initialPriceB).toFixed(2),
       apr: sim.apr.toString(),
+      tradeVolume: sim.tradeVolume?.toString() ?? '',
+      volumeFee: sim.volumeFee?.toString() ?? '',
+      poolTvl: sim.poolTvl?.toString() ?? '',
       duration: sim.duration.toString(),
       lowerPriceBound: sim.lowerPriceBound.toString(),
       upperPriceBound: sim.upperPriceBound.toString(),
@@ -116,15 +201,45 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
       startDate: sim.startDate,
       latestPriceA: sim.latestPriceA.toString(),
       latestPriceB: sim.latestPriceB.toString(),
+      priceProviderUrl: sim.priceProviderUrl ?? DEFAULT_PRICE_URL_TEMPLATE,
+      rangeResetDelay: sim.rangeResetDelay?.toString() ?? '',
+      rangeResetTriggerPct: sim.rangeResetTriggerPct?.toString() ?? '',
+      rangeResetSwapFee: sim.rangeResetSwapFee?.toString() ?? '',
+      rangeResetGasCost: sim.rangeResetGasCost?.toString() ?? '',
+      amplification: (sim.amplification ?? getProtocol(sim.protocolId).defaultAmplification ?? '').toString(),
+      gasPriceGwei: sim.gasPriceGwei?.toString() ?? '',
+      nativeTokenPrice: sim.nativeTokenPrice?.toString() ?? '',
+      gasUnitsMint: sim.gasUnitsMint?.toString() ?? '',
+      gasUnitsCollect: sim.gasUnitsCollect?.toString() ?? '',
+      collectFrequencyDays: sim.collectFrequencyDays?.toString() ?? '',
+      gasUnitsRebalance: sim.gasUnitsRebalance?.toString() ?? '',
+      gasUnitsBurn: sim.gasUnitsBurn?.toString() ?? '',
+      openSlippage: sim.openSlippage?.toString() ?? '',
+      volatilityA: monteCarloOptions.volatilityA.toString(),
+      volatilityB: monteCarloOptions.volatilityB.toString(),
+      driftA: monteCarloOptions.driftA.toString(),
+      driftB: monteCarloOptions.driftB.toString(),
+      monteCarloPaths: monteCarloOptions.paths.toString(),
+      monteCarloSeed: monteCarloOptions.seed.toString(),
       shortAmount: sim.shortAmount.toString(),
       fundingRate: sim.fundingRate.toString(),
+      hedgeRebalanceInterval: sim.hedgeRebalanceInterval?.toString() ?? '',
+      hedgeRebalanceThreshold: sim.hedgeRebalanceThreshold?.toString() ?? '',
+      hedgeLeverage: (sim.hedgeLeverage ?? 1).toString(),
+      hedgeCollateral: getHedgeCollateral(sim, getPosition(sim)).toFixed(2),
+      hedgeMaintenanceMargin: sim.hedgeMaintenanceMargin?.toString() ?? '',
+      hedgeEntryFee: sim.hedgeEntryFee?.toString() ?? '',
+      hedgeExitFee: sim.hedgeExitFee?.toString() ?? '',
+      fundingSchedule: formatFundingSchedule(sim.fundingSchedule),
     };
   }, []);
 
-  const [localValues, setLocalValues] = useLocalStorage<LocalValuesState>(
-    `lp-sim-values-${simulation.id}`,
+  const [storedValues, setLocalValues] = useLocalStorage<LocalValuesState>(
+    getCardValuesKey(simulation.id),
     getValuesFromSim(simulation)
   );
+  // Values persisted before a field existed fall back to the simulation's own value.
+  const localValues: LocalValuesState = { ...getValuesFromSim(simulation), ...storedValues };
   
   // Effect to sync price updates from props (e.g., AI fetch) without overwriting other user input
   const prevSimRef = useRef<Simulation>();
@@ -145,8 +260,21 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
     // Create a mutable copy of the current local values state
     const newValues = { ...localValues, [key]: value };
   
+    // A token from the registry brings its decimals, volatility and price source along.
+    if (key === 'tokenA' || key === 'tokenB') {
+      const side = key === 'tokenA' ? 'A' : 'B';
+      const defaults = getTokenDefaults(value, side);
+      const decimals = defaults[`decimals${side}`];
+      const volatility = defaults[`volatility${side}`];
+      if (decimals !== undefined) newValues[`decimals${side}`] = decimals.toString();
+      if (volatility !== undefined) newValues[`volatility${side}`] = volatility.toString();
+      onUpdate(simulation.id, { ...defaults, [key]: value });
+      setLocalValues(newValues);
+      return;
+    }
+
     // Handle simple string updates first and exit
-    if (key === 'protocol' || key === 'tokenA' || key === 'tokenB' || key === 'startDate') {
+    if (key === 'protocol' || key === 'startDate' || key === 'priceProviderUrl') {
       onUpdate(simulation.id, { [key]: value });
       setLocalValues(newValues); // Apply the single change
       return;
@@ -162,7 +290,7 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
     // Based on which input was changed, calculate dependent values and stage updates
     switch (key) {
       case 'amountA':
-        if (isValidNumber) {
+        if (isValidNumber && isAcceptedNumber('amountA', numValue)) {
             newValues.valueA = (numValue * simulation.initialPriceA).toFixed(2);
             simUpdate.amountA = numValue;
         } else if (value === '') {
@@ -171,7 +299,7 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
         }
         break;
       case 'valueA':
-        if (isValidNumber && simulation.initialPriceA > 0) {
+        if (isValidNumber && isAcceptedNumber('amountA', numValue) && simulation.initialPriceA > 0) {
             const newAmount = numValue / simulation.initialPriceA;
             newValues.amountA = newAmount.toString();
             simUpdate.amountA = newAmount;
@@ -181,7 +309,7 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
         }
         break;
       case 'amountB':
-        if (isValidNumber) {
+        if (isValidNumber && isAcceptedNumber('amountB', numValue)) {
             newValues.valueB = (numValue * simulation.initialPriceB).toFixed(2);
             simUpdate.amountB = numValue;
         } else if (value === '') {
@@ -190,7 +318,7 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
         }
         break;
       case 'valueB':
-        if (isValidNumber && simulation.initialPriceB > 0) {
+        if (isValidNumber && isAcceptedNumber('amountB', numValue) && simulation.initialPriceB > 0) {
             const newAmount = numValue / simulation.initialPriceB;
             newValues.amountB = newAmount.toString();
             simUpdate.amountB = newAmount;
@@ -201,14 +329,14 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
         break;
       case 'pctLower':
         if (isValidNumber && initialPriceRatio > 0) {
-            const newPriceBound = initialPriceRatio * (1 - numValue / 100);
+            const newPriceBound = roundBound(snapBound(simulation, initialPriceRatio * (1 - numValue / 100)));
             newValues.lowerPriceBound = newPriceBound.toString();
             simUpdate.lowerPriceBound = newPriceBound;
         }
         break;
       case 'pctUpper':
         if (isValidNumber && initialPriceRatio > 0) {
-            const newPriceBound = initialPriceRatio * (1 + numValue / 100);
+            const newPriceBound = roundBound(snapBound(simulation, initialPriceRatio * (1 + numValue / 100)));
             newValues.upperPriceBound = newPriceBound.toString();
             simUpdate.upperPriceBound = newPriceBound;
         }
@@ -231,14 +359,33 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
             simUpdate.upperPriceBound = numValue;
         }
         break;
-      default: // Generic numeric handler for other fields
-        const simKey = key as keyof Simulation;
-        if (isValidNumber) {
-            (simUpdate as any)[simKey] = numValue;
-        } else if (value === '') {
-            (simUpdate as any)[simKey] = 0;
+      case 'hedgeCollateral':
+        // Collateral is stored as leverage so it follows the short's size.
+        if (isValidNumber && numValue > 0) {
+            const entryNotional = getEntryNotional(simulation, getPosition(simulation));
+            if (entryNotional > 0) {
+                const leverage = entryNotional / numValue;
+                newValues.hedgeLeverage = leverage.toFixed(2);
+                simUpdate.hedgeLeverage = leverage;
+            }
+        }
+        break;
+      case 'hedgeLeverage':
+        if (isValidNumber && numValue > 0) {
+            newValues.hedgeCollateral = (getEntryNotional(simulation, getPosition(simulation)) / numValue).toFixed(2);
+            simUpdate.hedgeLeverage = numValue;
+        }
+        break;
+      default: { // Generic numeric handler for other fields
+        if (!isNumericField(key)) break;
+        // An empty field counts as 0; values the schema rejects are not stored, so the
+        // simulation keeps its last valid value until the input is corrected.
+        const fieldValue = isValidNumber ? numValue : value === '' ? 0 : null;
+        if (fieldValue !== null && isAcceptedNumber(key, fieldValue)) {
+            simUpdate[key] = fieldValue;
         }
         break;
+      }
     }
   
     // Atomically apply all updates
@@ -251,25 +398,21 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
   const handleHedgeToggle = useCallback((enabled: boolean) => {
     const update: Partial<Simulation> = { isHedgeEnabled: enabled };
     if (enabled) {
-      // Use the value of the currently selected short token as the default short size.
+      // Short the free-floating token of the pair, sized to the value held of it.
+      const shortToken = getDefaultShortToken(simulation);
       const tokenAValue = (simulation.amountA ?? 0) * simulation.initialPriceA;
       const tokenBValue = (simulation.amountB ?? 0) * simulation.initialPriceB;
-      const newShortAmount = simulation.shortToken === 'A' ? tokenAValue : tokenBValue;
+      const newShortAmount = shortToken === 'A' ? tokenAValue : tokenBValue;
       
+      update.shortToken = shortToken;
       update.shortAmount = newShortAmount;
-      setLocalValues(prev => ({...prev, shortAmount: newShortAmount.toFixed(2)}));
     }
     onUpdate(simulation.id, update);
-  }, [
-    simulation.id,
-    simulation.amountA,
-    simulation.initialPriceA,
-    simulation.amountB,
-    simulation.initialPriceB,
-    simulation.shortToken,
-    onUpdate,
-    setLocalValues
-  ]);
+    const { shortAmount } = update;
+    if (shortAmount !== undefined) {
+      setLocalValues(prev => ({...prev, shortAmount: shortAmount.toFixed(2)}));
+    }
+  }, [simulation, onUpdate, setLocalValues]);
 
   const handleShortTokenChange = useCallback((token: 'A' | 'B') => {
     const tokenAValue = (simulation.amountA ?? 0) * simulation.initialPriceA;
@@ -293,6 +436,46 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
     setLocalValues
   ]);
 
+  // Picking a preset also renames the card unless the name was customized.
+  const handleProtocolChange = useCallback((protocolId: string) => {
+    const next = getProtocol(protocolId);
+    const update: Partial<Simulation> = { protocolId };
+    if (simulation.protocol === getProtocol(simulation.protocolId).name) update.protocol = next.name;
+    const feeTier = getFeeTier({ ...simulation, protocolId });
+    if (feeTier) update.volumeFee = feeTier.fee;
+    onUpdate(simulation.id, update);
+    if (update.protocol) setLocalValues(prev => ({ ...prev, protocol: next.name }));
+  }, [simulation, onUpdate, setLocalValues]);
+
+  const handleFeeModeChange = useCallback((mode: FeeMode) => {
+    onUpdate(simulation.id, { feeMode: mode });
+  }, [simulation.id, onUpdate]);
+
+  const handleHedgeModeChange = useCallback((mode: HedgeMode) => {
+    onUpdate(simulation.id, { hedgeMode: mode });
+  }, [simulation.id, onUpdate]);
+
+  const handleFundingScheduleChange = useCallback((text: string) => {
+    setLocalValues(prev => ({ ...prev, fundingSchedule: text }));
+    const { schedule, errors } = parseFundingSchedule(text, simulation.startDate);
+    setFundingErrors(errors);
+    if (errors.length > 0) return;
+    onUpdate(simulation.id, { fundingSchedule: schedule.length > 0 ? schedule : undefined, fundingScheduleName: undefined });
+  }, [simulation.id, simulation.startDate, onUpdate, setLocalValues]);
+
+  const handleFundingFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { schedule, errors } = parseFundingSchedule(await file.text(), simulation.startDate);
+    if (errors.length === 0 && schedule.length === 0) errors.push('The file contains no funding rates.');
+    setFundingErrors(errors);
+    if (errors.length > 0) return;
+    onUpdate(simulation.id, { fundingSchedule: schedule, fundingScheduleName: file.name });
+    setLocalValues(prev => ({ ...prev, fundingSchedule: formatFundingSchedule(schedule) }));
+  }, [simulation.id, simulation.startDate, onUpdate, setLocalValues]);
+
   const endDate = useMemo(() => {
     if (!simulation.startDate || isNaN(new Date(simulation.startDate).getTime())) return '---';
     const date = new Date(simulation.startDate);
@@ -302,147 +485,173 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
 
   const DURATION_PRESETS = [{ label: '1D', days: 1 }, { label: '1W', days: 7 }, { label: '1M', days: 30 }, { label: '1Y', days: 365 }];
 
-  const calculations = useMemo(() => {
-    const { 
-        apr, duration, 
-        initialPriceA, initialPriceB, latestPriceA, latestPriceB, 
-        lowerPriceBound, upperPriceBound,
-        isHedgeEnabled, shortAmount, fundingRate, shortToken,
-        amountA, amountB
-    } = simulation;
-    
-    const initialAmountA = amountA ?? 0;
-    const initialAmountB = amountB ?? 0;
-    
-    const initialInvestment = initialAmountA * initialPriceA + initialAmountB * initialPriceB;
-    const holdValue = initialAmountA * latestPriceA + initialAmountB * latestPriceB;
-    
-    const latestPriceRatio = latestPriceB > 0 ? latestPriceA / latestPriceB : 0;
-    const initialPriceRatio = initialPriceB > 0 ? initialPriceA / initialPriceB : 0;
-    const isInRange = latestPriceRatio >= lowerPriceBound && latestPriceRatio <= upperPriceBound;
-
-    let finalLpValue = 0;
-    if (initialPriceRatio > 0 && latestPriceRatio > 0 && upperPriceBound > lowerPriceBound) {
-        let effectiveLpValue;
-        if (latestPriceRatio < lowerPriceBound) {
-            const L = (initialAmountA * Math.sqrt(initialPriceRatio) + initialAmountB) / (Math.sqrt(upperPriceBound) - Math.sqrt(lowerPriceBound));
-            effectiveLpValue = L * (Math.sqrt(upperPriceBound) - Math.sqrt(lowerPriceBound)) * Math.sqrt(latestPriceA);
-            effectiveLpValue = initialAmountA * latestPriceA + initialAmountB * latestPriceB; //Simplified, should be derived from Uniswap V3 math
-             const sqrtP = Math.sqrt(latestPriceRatio);
-             const sqrtPa = Math.sqrt(lowerPriceBound);
-             const sqrtPb = Math.sqrt(upperPriceBound);
-             const liquidity = Math.min(initialAmountA / (1/sqrtP - 1/sqrtPb), initialAmountB / (sqrtP-sqrtPa));
-             effectiveLpValue = initialAmountA * latestPriceA + initialAmountB * latestPriceB;
-             if (latestPriceRatio < lowerPriceBound) {
-                 effectiveLpValue = liquidity * (sqrtPb - sqrtPa) * Math.sqrt(latestPriceB);
-             } else if (latestPriceRatio > upperPriceBound) {
-                 effectiveLpValue = liquidity * (1/sqrtPa - 1/sqrtPb) * latestPriceA;
-             } else {
-                const amount0 = liquidity * (1/sqrtP - 1/sqrtPb);
-                const amount1 = liquidity * (sqrtP - sqrtPa);
-                effectiveLpValue = amount0*latestPriceA + amount1*latestPriceB;
-             }
-        }
-        
-        const priceRatioChange = latestPriceRatio / initialPriceRatio;
-        const impermanentLossFactor = (2 * Math.sqrt(priceRatioChange)) / (1 + priceRatioChange) -1;
-        finalLpValue = holdValue * (1 + impermanentLossFactor);
-    } else {
-        finalLpValue = holdValue;
-    }
+  const calculations = useMemo(() => calculateSimulation(simulation), [simulation]);
 
+  const chartData = useMemo(() => buildTimeline(simulation), [simulation]);
 
-    const impermanentLoss = finalLpValue - holdValue;
-    const impermanentLossPct = holdValue > 0 ? (impermanentLoss / holdValue) * 100 : 0;
-    const earnedFees = initialInvestment * (apr / 100) * (duration / 365);
-    const lpNetReturn = (finalLpValue + earnedFees) - initialInvestment;
-    const lpNetReturnPct = initialInvestment > 0 ? (lpNetReturn / initialInvestment) * 100 : 0;
+  // Day of today on the timeline while tracking; before it prices were observed, after it projected.
+  const elapsedDays = useMemo(() => simulation.isTrackingEnabled ? getElapsedDays(simulation) : null, [simulation]);
+  const lastSnapshot = simulation.priceSnapshots?.[simulation.priceSnapshots.length - 1];
 
-    let shortPnl = 0, fundingPnl = 0;
-    if (isHedgeEnabled) {
-      shortPnl = shortToken === 'A' 
-        ? (initialPriceA > 0 ? shortAmount * (1 - latestPriceA / initialPriceA) : 0)
-        : (initialPriceB > 0 ? shortAmount * (1 - latestPriceB / initialPriceB) : 0);
-      fundingPnl = -1 * shortAmount * (fundingRate / 100) * duration;
-    }
+  // The sweep re-runs the whole simulation per end price, so it is built on the worker and only
+  // while the card is open.
+  const hasTimeline = chartData.length > 0;
+  useEffect(() => {
+    if (!isExpanded || !hasTimeline) return;
+    const timer = window.setTimeout(() => payoff.run(simulation), PAYOFF_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [simulation, isExpanded, hasTimeline, payoff.run]);
 
-    const totalNetReturn = lpNetReturn + shortPnl + fundingPnl;
-    const totalNetReturnPct = initialInvestment > 0 ? (totalNetReturn / initialInvestment) * 100 : 0;
-    const finalTotalValue = initialInvestment + totalNetReturn;
+  const scenarioResults = useMemo(() => calculateScenarios(simulation), [simulation]);
+  const scenarioSeries: ChartSeries[] = useMemo(() => [
+    { label: 'Current projection', color: '#64748b', points: chartData.map(point => ({ day: point.day, value: point.totalValue })) },
+    ...scenarioResults.map(({ scenario, simulation: scenarioSim }, index) => ({
+      label: scenario.name || `Scenario ${index + 1}`,
+      color: SERIES_COLORS[index % SERIES_COLORS.length],
+      points: buildTimeline(scenarioSim).map(point => ({ day: point.day, value: point.totalValue })),
+    })),
+  ], [chartData, scenarioResults]);
 
-    return {
-      initialInvestment, earnedFees, impermanentLoss, impermanentLossPct, holdValue,
-      finalLpValue, lpNetReturn, lpNetReturnPct, shortPnl, fundingPnl, totalNetReturn,
-      totalNetReturnPct, finalTotalValue, isInRange,
-      priceRange: { min: lowerPriceBound, max: upperPriceBound, current: latestPriceRatio, isInRange }
-    };
-  }, [simulation]);
-  
-  const chartData = useMemo(() => {
-    const {
-      duration, apr, initialPriceA, initialPriceB, latestPriceA, latestPriceB,
-      amountA, amountB, isHedgeEnabled, shortToken, shortAmount, fundingRate
-    } = simulation;
+  const chartMarkers: ChartMarker[] = useMemo(() => calculations.liquidationDay !== null
+    ? [{ day: calculations.liquidationDay, label: 'Hedge liquidated', color: '#f87171' }]
+    : [], [calculations.liquidationDay]);
 
-    if (duration <= 0 || !amountA || !amountB) return [];
+  const performanceMarkers: ChartMarker[] = useMemo(() => [
+    ...chartData.filter(point => point.isRangeReset).map(point => ({ day: point.day, color: '#fbbf24' })),
+    ...(elapsedDays !== null && elapsedDays < simulation.duration ? [{ day: elapsedDays, label: 'Today', color: '#e2e8f0' }] : []),
+    ...chartMarkers,
+  ], [chartData, chartMarkers, elapsedDays, simulation.duration]);
 
-    const dataPoints = [];
-    const initialInvestment = (amountA * initialPriceA) + (amountB * initialPriceB);
+  // Value lines are shown by default; the P&L components can be switched on from the legend.
+  const performanceSeries: ChartSeries[] = useMemo(() => {
+    const line = (label: string, color: string, value: (point: SimulationSnapshot) => number, options: Partial<ChartSeries> = {}, points = chartData): ChartSeries =>
+      ({ label, color, points: points.map(point => ({ day: point.day, value: value(point) })), ...options });
+    // While tracking, the total value is split at today into the observed and the projected part.
+    const totalValue = elapsedDays !== null && elapsedDays < simulation.duration ? [
+      line('Total Value', '#22d3ee', point => point.totalValue, {}, chartData.filter(point => point.day <= elapsedDays)),
+      line('Projected Value', '#22d3ee', point => point.totalValue, { dashed: true }, chartData.filter(point => point.day >= elapsedDays)),
+    ] : [line('Total Value', '#22d3ee', point => point.totalValue)];
+    return [
+      ...totalValue,
+      line('HODL Value', '#64748b', point => point.holdValue, { dashed: true }),
+      line('Earned Fees', '#a3e635', point => point.earnedFees, { hiddenByDefault: true }),
+      line('Impermanent Loss', '#f472b6', point => point.impermanentLoss, { hiddenByDefault: true }),
+      ...(simulation.isHedgeEnabled ? [
+        line('Short P&L', '#fbbf24', point => point.shortPnl, { hiddenByDefault: true }),
+        line('Funding', '#a78bfa', point => point.fundingPnl, { hiddenByDefault: true }),
+      ] : []),
+    ];
+  }, [chartData, simulation.isHedgeEnabled, simulation.duration, elapsedDays]);
 
-    for (let day = 0; day <= duration; day++) {
-      const progress = duration > 0 ? day / duration : 1;
-      const currentPriceA = initialPriceA + (latestPriceA - initialPriceA) * progress;
-      const currentPriceB = initialPriceB > 0 ? initialPriceB + (latestPriceB - initialPriceB) * progress : 1;
+  const marginHealth = useMemo(() => {
+    const points = chartData.filter(point => point.marginRatio !== null).map(point => ({ day: point.day, value: point.marginRatio as number }));
+    if (points.length === 0) return [];
+    const maintenance = simulation.hedgeMaintenanceMargin ?? 0;
+    return [
+      { label: 'Margin Ratio', color: '#22d3ee', points },
+      { label: 'Maintenance', color: '#f87171', dashed: true, points: [{ day: 0, value: maintenance }, { day: chartData[chartData.length - 1].day, value: maintenance }] },
+    ];
+  }, [chartData, simulation.hedgeMaintenanceMargin]);
 
-      const holdValue = (amountA * currentPriceA) + (amountB * currentPriceB);
-      const earnedFees = initialInvestment * (apr / 100) * (day / 365);
-      
-      const initialPriceRatio = initialPriceB > 0 ? initialPriceA / initialPriceB : 0;
-      const currentPriceRatio = currentPriceB > 0 ? currentPriceA / currentPriceB : 0;
-
-      let lpValue = holdValue;
-      if (initialPriceRatio > 0 && currentPriceRatio > 0) {
-        const priceRatioChange = currentPriceRatio / initialPriceRatio;
-        if (priceRatioChange > 0) {
-          const impermanentLossFactor = (2 * Math.sqrt(priceRatioChange)) / (1 + priceRatioChange) - 1;
-          lpValue = holdValue * (1 + impermanentLossFactor);
-        }
-      }
-      
-      let shortPnl = 0, fundingPnl = 0;
-      if (isHedgeEnabled) {
-          shortPnl = shortToken === 'A' 
-            ? (initialPriceA > 0 ? shortAmount * (1 - currentPriceA / initialPriceA) : 0)
-            : (initialPriceB > 0 ? shortAmount * (1 - currentPriceB / initialPriceB) : 0);
-          fundingPnl = -1 * shortAmount * (fundingRate / 100) * day;
-      }
 
-      const totalValue = lpValue + earnedFees + shortPnl + fundingPnl;
-
-      dataPoints.push({
-        day,
-        totalValue,
-        holdValue,
-        earnedFees
-      });
-    }
-    return dataPoints;
-  }, [simulation]);
+  const priceProvider = getPriceProvider(simulation.priceProviderId);
 
-
-  const fetchPrices = useCallback(async () => {
+  const fetchPrices = useCallback(async (isAutoRefresh = false) => {
     setIsLoadingPrice(true);
+    setPriceError(null);
     try {
-      const { priceA, priceB } = await fetchMockTokenPrices(simulation);
-      onUpdate(simulation.id, { latestPriceA: priceA, latestPriceB: priceB });
+      const quote = await priceProvider.fetchPrices(simulation);
+      (isAutoRefresh && onRefresh ? onRefresh : onUpdate)(simulation.id, applyPriceQuote(simulation, quote));
     } catch (error) {
       console.error("Failed to fetch prices:", error);
+      setPriceError(error instanceof Error ? error.message : 'Failed to fetch prices.');
     } finally {
       setIsLoadingPrice(false);
     }
-  }, [simulation, onUpdate]);
+  }, [simulation, priceProvider, onUpdate, onRefresh]);
   
+  // The interval keeps running across renders, so it calls whichever fetch is current.
+  const fetchPricesRef = useRef(fetchPrices);
+  fetchPricesRef.current = fetchPrices;
+  const autoRefreshMinutes = simulation.autoRefreshMinutes ?? 0;
+
+  useEffect(() => {
+    if (readOnly || !simulation.isTrackingEnabled || autoRefreshMinutes <= 0) return;
+    const timer = window.setInterval(() => fetchPricesRef.current(true), autoRefreshMinutes * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [readOnly, simulation.isTrackingEnabled, autoRefreshMinutes]);
+
+  const copyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(await createPermalink(simulation));
+      setLinkStatus('copied');
+    } catch (error) {
+      console.error('Copying the link failed:', error);
+      setLinkStatus('failed');
+    }
+  }, [simulation]);
+
+  useEffect(() => {
+    if (!linkStatus) return;
+    const timer = window.setTimeout(() => setLinkStatus(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [linkStatus]);
+
+  const runMonteCarlo = useCallback(() => {
+    monteCarlo.run(simulation, getMonteCarloOptions(simulation));
+  }, [simulation, monteCarlo.run]);
+
+  // Applies a range, moved onto usable ticks, together with any change that affects the ticks.
+  const applyRange = useCallback((lowerPriceBound: number, upperPriceBound: number, changes: Partial<Simulation> = {}) => {
+    const next = { ...simulation, ...changes };
+    const update = { ...changes, lowerPriceBound: roundBound(snapBound(next, lowerPriceBound)), upperPriceBound: roundBound(snapBound(next, upperPriceBound)) };
+    onUpdate(simulation.id, update);
+    setLocalValues(getValuesFromSim({ ...next, ...update }));
+  }, [simulation, onUpdate, setLocalValues, getValuesFromSim]);
+
+  // Loads values picked elsewhere (e.g. a sensitivity cell) into the card and its inputs.
+  const applyChanges = useCallback((changes: Partial<Simulation>) => {
+    onUpdate(simulation.id, changes);
+    setLocalValues(getValuesFromSim({ ...simulation, ...changes }));
+  }, [simulation, onUpdate, setLocalValues, getValuesFromSim]);
+
+  const handleSeriesFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { series, errors } = parsePriceSeries(await file.text(), file.name);
+    setSeriesErrors(errors);
+    if (errors.length > 0) return;
+
+    const update: Partial<Simulation> = { priceSeries: series, priceSeriesName: file.name };
+    // Open the position at the historical prices of the start date so the backtest starts flat.
+    const startPrices = samplePriceSeries(series, getStartTimestamp(simulation));
+    if (startPrices) {
+      update.initialPriceA = startPrices.priceA;
+      update.initialPriceB = startPrices.priceB;
+    }
+    onUpdate(simulation.id, update);
+    setLocalValues(getValuesFromSim({ ...simulation, ...update }));
+  }, [simulation, onUpdate, setLocalValues, getValuesFromSim]);
+
+  const clearSeries = useCallback(() => {
+    setSeriesErrors([]);
+    onUpdate(simulation.id, { priceSeries: undefined, priceSeriesName: undefined });
+  }, [simulation.id, onUpdate]);
+
+  const seriesCoverage = useMemo(() => getPriceSeriesCoverage(simulation), [simulation]);
+
   const isHedgeEnabled = simulation.isHedgeEnabled ?? false;
+  const protocol = getProtocol(simulation.protocolId);
+  const hasRange = hasPriceRange(simulation);
+  const lowerTick = getBoundTick(simulation, simulation.lowerPriceBound);
+  const upperTick = getBoundTick(simulation, simulation.upperPriceBound);
+  const rangeStrategy = hasRange ? (simulation.rangeStrategy ?? 'never') : 'never';
+  const hedgeMode = simulation.hedgeMode ?? 'static';
+  const isMonteCarloEnabled = simulation.isMonteCarloEnabled ?? false;
+  const isTransactionCostEnabled = simulation.isTransactionCostEnabled ?? false;
+  const feeMode = simulation.feeMode ?? 'apr';
   
   const handleHeaderClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (e.target instanceof HTMLElement && e.target.closest('input, button, a')) {
@@ -454,25 +663,63 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
   const setFocus = (key: LocalValueKey) => () => setFocusedInput(key);
   const clearFocus = () => setFocusedInput(null);
 
+  // Typed bounds snap to the nearest usable tick once editing is done rather than on every keystroke.
+  const handleBoundBlur = (key: 'lowerPriceBound' | 'upperPriceBound') => () => {
+    clearFocus();
+    const price = parseFloat(localValues[key]);
+    if (price > 0 && getTickSpacing(simulation) > 0) handleInputChange(key, roundBound(snapBound(simulation, price)).toString());
+  };
+
   return (
     <Card className="transition-all duration-300">
       <div className="cursor-pointer" onClick={handleHeaderClick}>
         <div className="flex justify-between items-center">
           <div className="flex items-center gap-3 flex-1 min-w-0">
+            {onToggleSelect && (
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => onToggleSelect(simulation.id)}
+                className="w-4 h-4 flex-shrink-0 accent-cyan-500 cursor-pointer"
+                aria-label="Select for comparison"
+                title="Select for comparison"
+              />
+            )}
             <input
               value={localValues.protocol}
               onChange={(e) => handleInputChange('protocol', e.target.value)}
               onFocus={setFocus('protocol')}
               onBlur={clearFocus}
+              readOnly={readOnly}
               className="bg-transparent text-xl font-bold text-slate-100 focus:outline-none focus:ring-1 focus:ring-cyan-500 rounded-md px-1 -ml-1 w-full sm:w-auto"
               aria-label="Protocol Name"
             />
             <span className="text-slate-400 font-mono hidden sm:inline truncate">{simulation.tokenA}/{simulation.tokenB}</span>
           </div>
           <div className="flex items-center gap-2 ml-2">
-            <Button onClick={() => onRemove(simulation.id)} variant="danger" size="sm" className="!p-2" aria-label="Remove Simulation">
-              <TrashIcon className="w-4 h-4" />
+            {linkStatus && (
+              <span className={`text-xs ${linkStatus === 'copied' ? 'text-green-400' : 'text-red-400'}`} role="status">
+                {linkStatus === 'copied' ? 'Link copied' : 'Could not copy link'}
+              </span>
+            )}
+            <Button onClick={copyLink} variant="secondary" size="sm" className="!p-2" aria-label="Copy Link" title="Copy a link to this simulation">
+              <LinkIcon className="w-4 h-4" />
             </Button>
+            {onSaveTemplate && (
+              <Button onClick={() => onSaveTemplate(simulation.id)} variant="secondary" size="sm" className="!p-2" aria-label="Save as Template" title="Save as a template for new simulations">
+                <BookmarkIcon className="w-4 h-4" />
+              </Button>
+            )}
+            {onDuplicate && (
+              <Button onClick={() => onDuplicate(simulation.id)} variant="secondary" size="sm" className="!p-2" aria-label="Duplicate Simulation" title="Duplicate this simulation">
+                <DuplicateIcon className="w-4 h-4" />
+              </Button>
+            )}
+            {!readOnly && (
+              <Button onClick={() => onRemove(simulation.id)} variant="danger" size="sm" className="!p-2" aria-label="Remove Simulation">
+                <TrashIcon className="w-4 h-4" />
+              </Button>
+            )}
             <div className="w-6 h-6 text-slate-400" aria-hidden="true">
               {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
             </div>
@@ -513,23 +760,62 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
 
       {isExpanded && (
         <div className="animate-fade-in">
+          <fieldset disabled={readOnly} className="min-w-0">
           <div className="mt-4 pt-4 border-t border-slate-800">
             <h3 className="text-lg font-semibold text-slate-300 mb-3">Position Setup</h3>
             <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                    <Select label="Protocol" value={protocol.id} onChange={e => handleProtocolChange(e.target.value)} title={protocol.description}>
+                      {listProtocols().map(entry => (
+                        <option key={entry.id} value={entry.id}>{entry.name}</option>
+                      ))}
+                    </Select>
+                    <p className="text-sm text-slate-400 pb-2">{protocol.description}</p>
+                </div>
+                <datalist id={tokenListId}>
+                  {tokens.map(token => <option key={token.symbol} value={token.symbol} />)}
+                </datalist>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end p-3 bg-slate-800/50 rounded-lg">
-                    <Input label={`Token A Name`} value={localValues.tokenA} onChange={e => handleInputChange('tokenA', e.target.value.toUpperCase())} onFocus={setFocus('tokenA')} onBlur={clearFocus} />
+                    <Input label={`Token A Name`} list={tokenListId} value={localValues.tokenA} onChange={e => handleInputChange('tokenA', e.target.value.toUpperCase())} onFocus={setFocus('tokenA')} onBlur={clearFocus} />
                     <Input label="Initial Price" type="number" step="any" value={localValues.initialPriceA} onChange={e => handleInputChange('initialPriceA', e.target.value)} onFocus={setFocus('initialPriceA')} onBlur={clearFocus} />
                     <Input label="Amount" type="number" step="any" value={localValues.amountA} onChange={e => handleInputChange('amountA', e.target.value)} onFocus={setFocus('amountA')} onBlur={clearFocus} />
                     <Input label="Value ($)" type="number" step="any" value={localValues.valueA} onChange={e => handleInputChange('valueA', e.target.value)} onFocus={setFocus('valueA')} onBlur={clearFocus} />
                 </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end p-3 bg-slate-800/50 rounded-lg">
-                    <Input label={`Token B Name`} value={localValues.tokenB} onChange={e => handleInputChange('tokenB', e.target.value.toUpperCase())} onFocus={setFocus('tokenB')} onBlur={clearFocus} />
+                    <Input label={`Token B Name`} list={tokenListId} value={localValues.tokenB} onChange={e => handleInputChange('tokenB', e.target.value.toUpperCase())} onFocus={setFocus('tokenB')} onBlur={clearFocus} />
                     <Input label="Initial Price" type="number" step="any" value={localValues.initialPriceB} onChange={e => handleInputChange('initialPriceB', e.target.value)} onFocus={setFocus('initialPriceB')} onBlur={clearFocus} />
                     <Input label="Amount" type="number" step="any" value={localValues.amountB} onChange={e => handleInputChange('amountB', e.target.value)} onFocus={setFocus('amountB')} onBlur={clearFocus} />
                     <Input label="Value ($)" type="number" step="any" value={localValues.valueB} onChange={e => handleInputChange('valueB', e.target.value)} onFocus={setFocus('valueB')} onBlur={clearFocus} />
+                </div>
+                <div>
+                    <label className="mb-1.5 text-sm font-medium text-slate-400 block">Fee Model</label>
+                    <div className="flex space-x-2 mt-1" role="radiogroup" aria-label="Fee model">
+                        <Button onClick={() => handleFeeModeChange('apr')} variant={feeMode === 'apr' ? 'primary' : 'secondary'} size="sm" className="flex-1" aria-checked={feeMode === 'apr'} role="radio">
+                            APR
+                        </Button>
+                        <Button onClick={() => handleFeeModeChange('volume')} variant={feeMode === 'volume' ? 'primary' : 'secondary'} size="sm" className="flex-1" aria-checked={feeMode === 'volume'} role="radio">
+                            Volume-based
+                        </Button>
+                    </div>
                 </div>
                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-2">
-                    <Input label="APR (%)" type="number" step="any" value={localValues.apr} onChange={e => handleInputChange('apr', e.target.value)} onFocus={setFocus('apr')} onBlur={clearFocus} />
+                    {feeMode === 'apr' ? (
+                      <Input label="APR (%)" type="number" step="any" value={localValues.apr} onChange={e => handleInputChange('apr', e.target.value)} onFocus={setFocus('apr')} onBlur={clearFocus} />
+                    ) : (
+                      <>
+                        <Input label="Pool TVL ($)" type="number" step="any" value={localValues.poolTvl} onChange={e => handleInputChange('poolTvl', e.target.value)} onFocus={setFocus('poolTvl')} onBlur={clearFocus} />
+                        <Input label="Pool Daily Volume ($)" type="number" step="any" value={localValues.tradeVolume} onChange={e => handleInputChange('tradeVolume', e.target.value)} onFocus={setFocus('tradeVolume')} onBlur={clearFocus} />
+                        {!hasRange && (protocol.feeTiers.length > 0 ? (
+                          <Select label="Fee Tier (%)" value={String(getFeeTier(simulation)?.fee ?? '')} onChange={e => handleInputChange('volumeFee', e.target.value)} disabled={protocol.feeTiers.length === 1}>
+                            {protocol.feeTiers.map(tier => (
+                              <option key={tier.fee} value={tier.fee}>{tier.fee}%</option>
+                            ))}
+                          </Select>
+                        ) : (
+                          <Input label="Fee Tier (%)" type="number" step="any" value={localValues.volumeFee} onChange={e => handleInputChange('volumeFee', e.target.value)} onFocus={setFocus('volumeFee')} onBlur={clearFocus} />
+                        ))}
+                      </>
+                    )}
                     <div>
                       <label className="mb-1.5 text-sm font-medium text-slate-400 block">Total Investment</label>
                       <div className="h-[42px] bg-slate-900 border border-slate-700 rounded-md px-3 py-2 text-white flex items-center font-semibold" aria-label="Calculated Total Investment">
@@ -542,37 +828,107 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
           
           <div className="mt-6 pt-4 border-t border-slate-800">
             <h3 className="text-lg font-semibold text-slate-300 mb-2">Liquidity Range</h3>
-            <p className="text-sm text-slate-400 mb-4 -mt-1">
-                Set price range by absolute values or by % deviation from initial price.
-            </p>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-4">
-                <div className="flex flex-col">
-                    <label className="mb-1.5 text-sm font-medium text-slate-400">Lower Bound ({simulation.tokenA}/{simulation.tokenB})</label>
-                    <div className="flex items-center space-x-2">
-                        <Input label="Lower Bound Price" hideLabel type="number" step="any" value={localValues.lowerPriceBound} onChange={e => handleInputChange('lowerPriceBound', e.target.value)} onFocus={setFocus('lowerPriceBound')} onBlur={clearFocus} placeholder="Price"/>
-                        <div className="relative w-28">
-                            <Input label="Lower Bound Percentage" hideLabel type="number" step="any" value={localValues.pctLower} onChange={e => handleInputChange('pctLower', e.target.value)} onFocus={setFocus('pctLower')} onBlur={clearFocus} placeholder="Downside" className="pr-6 text-red-400 font-semibold" />
-                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">%</span>
-                        </div>
-                    </div>
-                    <div className="mt-3">
-                      <Slider min="0" max="99.9" step="0.1" value={localValues.pctLower} onChange={e => handleInputChange('pctLower', e.target.value)} aria-label="Lower bound percentage slider" />
-                    </div>
-                </div>
-                <div className="flex flex-col">
-                    <label className="mb-1.5 text-sm font-medium text-slate-400">Upper Bound ({simulation.tokenA}/{simulation.tokenB})</label>
-                    <div className="flex items-center space-x-2">
-                        <Input label="Upper Bound Price" hideLabel type="number" step="any" value={localValues.upperPriceBound} onChange={e => handleInputChange('upperPriceBound', e.target.value)} onFocus={setFocus('upperPriceBound')} onBlur={clearFocus} placeholder="Price" />
-                        <div className="relative w-28">
-                            <Input label="Upper Bound Percentage" hideLabel type="number" step="any" value={localValues.pctUpper} onChange={e => handleInputChange('pctUpper', e.target.value)} onFocus={setFocus('pctUpper')} onBlur={clearFocus} placeholder="Upside" className="pr-6 text-green-400 font-semibold" />
-                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">%</span>
-                        </div>
-                    </div>
-                    <div className="mt-3">
-                      <Slider min="0" max="500" step="0.1" value={localValues.pctUpper} onChange={e => handleInputChange('pctUpper', e.target.value)} aria-label="Upper bound percentage slider" />
-                    </div>
+            {hasRange ? (
+              <>
+              <p className="text-sm text-slate-400 mb-4 -mt-1">
+                  Set price range by absolute values or by % deviation from initial price. Bounds snap to the nearest tick the fee tier allows.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                  <div className="col-span-2">
+                    <Select label="Fee Tier" value={String(getFeeTier(simulation)?.fee ?? '')} onChange={e => applyRange(simulation.lowerPriceBound, simulation.upperPriceBound, { volumeFee: parseFloat(e.target.value) })}>
+                      {protocol.feeTiers.map(tier => (
+                        <option key={tier.fee} value={tier.fee}>{tier.fee}% (tick spacing {tier.tickSpacing})</option>
+                      ))}
+                    </Select>
+                  </div>
+                  <Input label={`${simulation.tokenA || 'Token A'} Decimals`} type="number" step="1" min="0" value={localValues.decimalsA} onChange={e => handleInputChange('decimalsA', e.target.value)} onFocus={setFocus('decimalsA')} onBlur={clearFocus} placeholder="18" />
+                  <Input label={`${simulation.tokenB || 'Token B'} Decimals`} type="number" step="1" min="0" value={localValues.decimalsB} onChange={e => handleInputChange('decimalsB', e.target.value)} onFocus={setFocus('decimalsB')} onBlur={clearFocus} placeholder="18" />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-4">
+                  <div className="flex flex-col">
+                      <div className="flex justify-between items-baseline mb-1.5">
+                        <label className="text-sm font-medium text-slate-400">Lower Bound ({simulation.tokenA}/{simulation.tokenB})</label>
+                        {lowerTick !== null && <span className="text-xs font-mono text-slate-500">tick {lowerTick}</span>}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                          <Input label="Lower Bound Price" hideLabel type="number" step="any" value={localValues.lowerPriceBound} onChange={e => handleInputChange('lowerPriceBound', e.target.value)} onFocus={setFocus('lowerPriceBound')} onBlur={handleBoundBlur('lowerPriceBound')} placeholder="Price"/>
+                          <div className="relative w-28">
+                              <Input label="Lower Bound Percentage" hideLabel type="number" step="any" value={localValues.pctLower} onChange={e => handleInputChange('pctLower', e.target.value)} onFocus={setFocus('pctLower')} onBlur={clearFocus} placeholder="Downside" className="pr-6 text-red-400 font-semibold" />
+                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">%</span>
+                          </div>
+                      </div>
+                      <div className="mt-3">
+                        <Slider min="0" max="99.9" step="0.1" value={localValues.pctLower} onChange={e => handleInputChange('pctLower', e.target.value)} aria-label="Lower bound percentage slider" />
+                      </div>
+                  </div>
+                  <div className="flex flex-col">
+                      <div className="flex justify-between items-baseline mb-1.5">
+                        <label className="text-sm font-medium text-slate-400">Upper Bound ({simulation.tokenA}/{simulation.tokenB})</label>
+                        {upperTick !== null && <span className="text-xs font-mono text-slate-500">tick {upperTick}</span>}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                          <Input label="Upper Bound Price" hideLabel type="number" step="any" value={localValues.upperPriceBound} onChange={e => handleInputChange('upperPriceBound', e.target.value)} onFocus={setFocus('upperPriceBound')} onBlur={handleBoundBlur('upperPriceBound')} placeholder="Price" />
+                          <div className="relative w-28">
+                              <Input label="Upper Bound Percentage" hideLabel type="number" step="any" value={localValues.pctUpper} onChange={e => handleInputChange('pctUpper', e.target.value)} onFocus={setFocus('pctUpper')} onBlur={clearFocus} placeholder="Upside" className="pr-6 text-green-400 font-semibold" />
+                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">%</span>
+                          </div>
+                      </div>
+                      <div className="mt-3">
+                        <Slider min="0" max="500" step="0.1" value={localValues.pctUpper} onChange={e => handleInputChange('pctUpper', e.target.value)} aria-label="Upper bound percentage slider" />
+                      </div>
+                  </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+                  <div className="col-span-2">
+                    <Select label="Range Strategy" value={rangeStrategy} onChange={e => onUpdate(simulation.id, { rangeStrategy: e.target.value as RangeStrategy })}>
+                      <option value="never">Never rebalance</option>
+                      <option value="outOfRange">Re-center after N days out of range</option>
+                      <option value="threshold">Re-center when price moves X% of range width</option>
+                    </Select>
+                  </div>
+                  {rangeStrategy === 'outOfRange' && (
+                    <Input label="Days Out of Range" type="number" step="any" min="0" value={localValues.rangeResetDelay} onChange={e => handleInputChange('rangeResetDelay', e.target.value)} onFocus={setFocus('rangeResetDelay')} onBlur={clearFocus} />
+                  )}
+                  {rangeStrategy === 'threshold' && (
+                    <Input label="Trigger (% of width)" type="number" step="any" min="0" value={localValues.rangeResetTriggerPct} onChange={e => handleInputChange('rangeResetTriggerPct', e.target.value)} onFocus={setFocus('rangeResetTriggerPct')} onBlur={clearFocus} />
+                  )}
+                  {rangeStrategy !== 'never' && (
+                    <>
+                      <Input label="Swap Fee (%)" type="number" step="any" min="0" value={localValues.rangeResetSwapFee} onChange={e => handleInputChange('rangeResetSwapFee', e.target.value)} onFocus={setFocus('rangeResetSwapFee')} onBlur={clearFocus} placeholder="0" />
+                      {isTransactionCostEnabled ? (
+                        <Input label="Gas per Reset ($)" type="number" value={getRebalanceGasCost(simulation).toFixed(2)} disabled title="Priced by the transaction cost model" className="opacity-60" />
+                      ) : (
+                        <Input label="Gas per Reset ($)" type="number" step="any" min="0" value={localValues.rangeResetGasCost} onChange={e => handleInputChange('rangeResetGasCost', e.target.value)} onFocus={setFocus('rangeResetGasCost')} onBlur={clearFocus} placeholder="0" />
+                      )}
+                    </>
+                  )}
+              </div>
+              {rangeStrategy !== 'never' && (
+                <p className="text-sm text-slate-400 mt-2">
+                    Each reset withdraws the position, swaps to the new token mix and re-deposits it in a range of the same shape around the current price, realizing the impermanent loss so far.
+                </p>
+              )}
+              <div className="mt-4">
+                  <Button onClick={() => setIsOptimizerOpen(open => !open)} variant="secondary" size="sm">
+                      {isOptimizerOpen ? 'Hide Range Optimizer' : 'Optimize Range'}
+                  </Button>
+              </div>
+              {isOptimizerOpen && (
+                <div className="mt-4 p-4 bg-slate-800/30 rounded-lg">
+                  <RangeOptimizer simulation={simulation} onApply={applyRange} />
                 </div>
-            </div>
+              )}
+              </>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                <p className="text-sm text-slate-400 md:col-span-2 -mt-1">
+                    {protocol.name} pools have no price range: the position provides liquidity at every price and is always in range.
+                </p>
+                {protocol.invariant === 'stableswap' && (
+                  <Input label="Amplification (A)" type="number" step="any" min="0" value={localValues.amplification} onChange={e => handleInputChange('amplification', e.target.value)} onFocus={setFocus('amplification')} onBlur={clearFocus} />
+                )}
+              </div>
+            )}
           </div>
           
           <div className="mt-6 pt-4 border-t border-slate-800">
@@ -581,11 +937,59 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
               <Input label={`Current ${simulation.tokenA} Price`} type="number" step="any" value={localValues.latestPriceA} onChange={e => handleInputChange('latestPriceA', e.target.value)} onFocus={setFocus('latestPriceA')} onBlur={clearFocus} />
               <Input label={`Current ${simulation.tokenB} Price`} type="number" step="any" value={localValues.latestPriceB} onChange={e => handleInputChange('latestPriceB', e.target.value)} onFocus={setFocus('latestPriceB')} onBlur={clearFocus} />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                <Select label="Price Provider" value={priceProvider.id} onChange={e => onUpdate(simulation.id, { priceProviderId: e.target.value })} title={priceProvider.description}>
+                    {listPriceProviders().map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </Select>
+                {priceProvider.id === HTTP_PRICE_PROVIDER_ID && (
+                    <Input label="Price URL Template" value={localValues.priceProviderUrl} onChange={e => handleInputChange('priceProviderUrl', e.target.value)} onFocus={setFocus('priceProviderUrl')} onBlur={clearFocus} placeholder="https://example.com/prices?a={tokenA}&b={tokenB}" />
+                )}
+            </div>
             <div className="mt-4">
-                <Button onClick={fetchPrices} disabled={isLoadingPrice} className="w-full md:w-auto" variant="secondary">
+                <Button onClick={() => fetchPrices()} disabled={isLoadingPrice} className="w-full md:w-auto" variant="secondary">
                     <SyncIcon className={`w-5 h-5 mr-2 ${isLoadingPrice ? 'animate-spin' : ''}`} />
-                    {isLoadingPrice ? 'Fetching AI Prices...' : 'Update with AI Price (Mock)'}
+                    {isLoadingPrice ? 'Fetching Prices...' : `Update Prices (${priceProvider.name})`}
                 </Button>
+                {priceError && (
+                  <p className="mt-2 text-sm text-red-400">{priceError}</p>
+                )}
+            </div>
+            <div className="mt-6">
+                <div className="flex justify-between items-center mb-1">
+                  <h4 className="text-md font-semibold text-slate-300">Live Tracking</h4>
+                  <Toggle enabled={!!simulation.isTrackingEnabled} onChange={enabled => onUpdate(simulation.id, { isTrackingEnabled: enabled })} label="Enable Live Tracking" />
+                </div>
+                <p className="text-sm text-slate-400 mb-3">
+                    Records every price update with its time. The timeline follows the recorded prices from the start date to today and projects the current prices over the rest of the duration.
+                </p>
+                {simulation.isTrackingEnabled && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end animate-fade-in">
+                    <Select label="Auto Refresh" value={autoRefreshMinutes} onChange={e => onUpdate(simulation.id, { autoRefreshMinutes: Number(e.target.value) })}>
+                      {AUTO_REFRESH_MINUTES.map(minutes => (
+                        <option key={minutes} value={minutes}>{minutes === 0 ? 'Off' : minutes === 1 ? 'Every minute' : `Every ${minutes} minutes`}</option>
+                      ))}
+                    </Select>
+                    <div className="text-sm text-slate-400 pb-2">
+                      <p>Day {(elapsedDays ?? 0).toFixed(1)} of {simulation.duration}</p>
+                      <p>
+                        {simulation.priceSnapshots?.length ?? 0} snapshot{simulation.priceSnapshots?.length === 1 ? '' : 's'}
+                        {lastSnapshot && `, last ${new Date(lastSnapshot.timestamp).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <Button onClick={() => onUpdate(simulation.id, { priceSnapshots: undefined })} variant="secondary" size="sm" className="md:w-auto md:justify-self-start mb-1.5" disabled={!simulation.priceSnapshots?.length}>
+                      Clear Snapshots
+                    </Button>
+                  </div>
+                )}
+            </div>
+            <div className="mt-6">
+                <h4 className="text-md font-semibold text-slate-300 mb-1">Scenarios</h4>
+                <p className="text-sm text-slate-400 mb-3">
+                    Named end-price projections, each optionally over its own duration or APR. Empty fields use the values above.
+                </p>
+                <ScenarioEditor simulation={simulation} onChange={scenarios => onUpdate(simulation.id, { scenarios: scenarios.length > 0 ? scenarios : undefined })} />
             </div>
             <div className="mt-6">
                 <h4 className="text-md font-semibold text-slate-300 mb-3">Timeline</h4>
@@ -609,8 +1013,67 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
                     </div>
                 </div>
             </div>
+            <div className="mt-6">
+                <h4 className="text-md font-semibold text-slate-300 mb-3">Historical Prices</h4>
+                <p className="text-sm text-slate-400 mb-3 -mt-1">
+                    Import a CSV or JSON series of timestamp, {simulation.tokenA} price, {simulation.tokenB} price to backtest the position over the timeline.
+                </p>
+                <input ref={seriesInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleSeriesFile} aria-label="Price series file" />
+                <div className="flex flex-wrap items-center gap-2">
+                    <Button onClick={() => seriesInputRef.current?.click()} variant="secondary" size="sm">
+                        {simulation.priceSeries ? 'Replace Series' : 'Import Series'}
+                    </Button>
+                    {simulation.priceSeries && (
+                      <Button onClick={clearSeries} variant="secondary" size="sm">Remove Series</Button>
+                    )}
+                </div>
+                {seriesCoverage && (
+                  <div className="mt-3 text-sm text-slate-400">
+                    <span className="font-semibold text-slate-300">{simulation.priceSeriesName}</span>
+                    {` · ${simulation.priceSeries?.length} points · ${seriesCoverage.firstDate} to ${seriesCoverage.lastDate}`}
+                    {!seriesCoverage.coversStart && (
+                      <p className="mt-1 text-yellow-400">The series does not cover the start date; the timeline uses the linear projection instead.</p>
+                    )}
+                    {seriesCoverage.coversStart && !seriesCoverage.coversEnd && (
+                      <p className="mt-1 text-yellow-400">The series ends on day {seriesCoverage.coveredDays}; results stop there.</p>
+                    )}
+                  </div>
+                )}
+                {seriesErrors.length > 0 && (
+                  <ul className="mt-3 text-sm text-red-400 list-disc list-inside space-y-0.5" role="alert">
+                    {seriesErrors.map((error, i) => <li key={i}>{error}</li>)}
+                  </ul>
+                )}
+            </div>
           </div>
           
+          <div className="mt-6 pt-4 border-t border-slate-800">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-lg font-semibold text-slate-300">Transaction Costs</h3>
+              <Toggle enabled={isTransactionCostEnabled} onChange={enabled => onUpdate(simulation.id, { isTransactionCostEnabled: enabled })} label="Enable Transaction Costs" />
+            </div>
+            {isTransactionCostEnabled && (
+              <div className="animate-fade-in">
+                <p className="text-sm text-slate-400 mb-4 -mt-1">
+                    Gas for minting, collecting fees, re-centering and closing the position. The deposit is swapped into the range's token mix at mint, paying slippage on the swapped value.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <Input label="Gas Price (gwei)" type="number" step="any" min="0" value={localValues.gasPriceGwei} onChange={e => handleInputChange('gasPriceGwei', e.target.value)} onFocus={setFocus('gasPriceGwei')} onBlur={clearFocus} />
+                    <Input label="Native Token Price ($)" type="number" step="any" min="0" value={localValues.nativeTokenPrice} onChange={e => handleInputChange('nativeTokenPrice', e.target.value)} onFocus={setFocus('nativeTokenPrice')} onBlur={clearFocus} />
+                    <Input label="Open Slippage (%)" type="number" step="any" min="0" value={localValues.openSlippage} onChange={e => handleInputChange('openSlippage', e.target.value)} onFocus={setFocus('openSlippage')} onBlur={clearFocus} placeholder="0" />
+                    <Input label="Collect Every (days)" type="number" step="any" min="0" value={localValues.collectFrequencyDays} onChange={e => handleInputChange('collectFrequencyDays', e.target.value)} onFocus={setFocus('collectFrequencyDays')} onBlur={clearFocus} placeholder="0 = at close" />
+                    <Input label="Mint Gas (units)" type="number" step="1" min="0" value={localValues.gasUnitsMint} onChange={e => handleInputChange('gasUnitsMint', e.target.value)} onFocus={setFocus('gasUnitsMint')} onBlur={clearFocus} />
+                    <Input label="Collect Gas (units)" type="number" step="1" min="0" value={localValues.gasUnitsCollect} onChange={e => handleInputChange('gasUnitsCollect', e.target.value)} onFocus={setFocus('gasUnitsCollect')} onBlur={clearFocus} />
+                    <Input label="Rebalance Gas (units)" type="number" step="1" min="0" value={localValues.gasUnitsRebalance} onChange={e => handleInputChange('gasUnitsRebalance', e.target.value)} onFocus={setFocus('gasUnitsRebalance')} onBlur={clearFocus} />
+                    <Input label="Burn Gas (units)" type="number" step="1" min="0" value={localValues.gasUnitsBurn} onChange={e => handleInputChange('gasUnitsBurn', e.target.value)} onFocus={setFocus('gasUnitsBurn')} onBlur={clearFocus} />
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                    Mint {getGasCost(simulation, simulation.gasUnitsMint).toLocaleString('en-US', { style: 'currency', currency: 'USD' })} · Collect {getGasCost(simulation, simulation.gasUnitsCollect).toLocaleString('en-US', { style: 'currency', currency: 'USD' })} · Rebalance {getGasCost(simulation, simulation.gasUnitsRebalance).toLocaleString('en-US', { style: 'currency', currency: 'USD' })} · Burn {getGasCost(simulation, simulation.gasUnitsBurn).toLocaleString('en-US', { style: 'currency', currency: 'USD' })} per transaction
+                </p>
+              </div>
+            )}
+          </div>
+
           <div className="mt-6 pt-4 border-t border-slate-800">
             <div className="flex justify-between items-center mb-3">
               <h3 className="text-lg font-semibold text-slate-300">Hedging: Short Position</h3>
@@ -629,21 +1092,219 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
                           </Button>
                       </div>
                   </div>
-                  <Input label="Short Size ($)" type="number" step="any" value={localValues.shortAmount} onChange={e => handleInputChange('shortAmount', e.target.value)} onFocus={setFocus('shortAmount')} onBlur={clearFocus} />
-                  <Input label="Funding Rate (%/day)" type="number" step="any" value={localValues.fundingRate} onChange={e => handleInputChange('fundingRate', e.target.value)} onFocus={setFocus('fundingRate')} onBlur={clearFocus} />
+                  <div className="md:col-span-2">
+                      <label className="mb-1.5 text-sm font-medium text-slate-400 block">Hedge Sizing</label>
+                      <div className="flex space-x-2 mt-1" role="radiogroup" aria-label="Hedge sizing">
+                          <Button onClick={() => handleHedgeModeChange('static')} variant={hedgeMode === 'static' ? 'primary' : 'secondary'} size="sm" className="flex-1" aria-checked={hedgeMode === 'static'} role="radio">
+                              Static
+                          </Button>
+                          <Button onClick={() => handleHedgeModeChange('deltaNeutral')} variant={hedgeMode === 'deltaNeutral' ? 'primary' : 'secondary'} size="sm" className="flex-1" aria-checked={hedgeMode === 'deltaNeutral'} role="radio">
+                              Delta-Neutral
+                          </Button>
+                      </div>
+                  </div>
+                  {hedgeMode === 'static' ? (
+                    <Input label="Short Size ($)" type="number" step="any" value={localValues.shortAmount} onChange={e => handleInputChange('shortAmount', e.target.value)} onFocus={setFocus('shortAmount')} onBlur={clearFocus} />
+                  ) : (
+                    <>
+                      <p className="md:col-span-2 text-sm text-slate-400 -mt-1">
+                          The short matches the position's {simulation.shortToken === 'A' ? simulation.tokenA : simulation.tokenB} holdings, which change as the price moves through the range. Set an interval, a drift threshold or both to rebalance it.
+                      </p>
+                      <Input label="Rebalance Every (days)" type="number" step="any" min="0" value={localValues.hedgeRebalanceInterval} onChange={e => handleInputChange('hedgeRebalanceInterval', e.target.value)} onFocus={setFocus('hedgeRebalanceInterval')} onBlur={clearFocus} placeholder="Never" />
+                      <Input label="Delta Drift Threshold (% of LP value)" type="number" step="any" min="0" value={localValues.hedgeRebalanceThreshold} onChange={e => handleInputChange('hedgeRebalanceThreshold', e.target.value)} onFocus={setFocus('hedgeRebalanceThreshold')} onBlur={clearFocus} placeholder="Never" />
+                    </>
+                  )}
+                  <Input label="Leverage (x)" type="number" step="any" min="0" value={localValues.hedgeLeverage} onChange={e => handleInputChange('hedgeLeverage', e.target.value)} onFocus={setFocus('hedgeLeverage')} onBlur={clearFocus} />
+                  <Input
+                    label="Collateral ($)"
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={focusedInput === 'hedgeCollateral' ? localValues.hedgeCollateral : getHedgeCollateral(simulation, getPosition(simulation)).toFixed(2)}
+                    onChange={e => handleInputChange('hedgeCollateral', e.target.value)}
+                    onFocus={() => {
+                      setLocalValues(prev => ({ ...prev, hedgeCollateral: getHedgeCollateral(simulation, getPosition(simulation)).toFixed(2) }));
+                      setFocusedInput('hedgeCollateral');
+                    }}
+                    onBlur={clearFocus}
+                  />
+                  <Input label="Maintenance Margin (%)" type="number" step="any" min="0" value={localValues.hedgeMaintenanceMargin} onChange={e => handleInputChange('hedgeMaintenanceMargin', e.target.value)} onFocus={setFocus('hedgeMaintenanceMargin')} onBlur={clearFocus} placeholder="0" />
+                  <Input label={simulation.fundingSchedule ? 'Funding Before Schedule (%/day)' : 'Funding Rate (%/day)'} type="number" step="any" value={localValues.fundingRate} onChange={e => handleInputChange('fundingRate', e.target.value)} onFocus={setFocus('fundingRate')} onBlur={clearFocus} />
+                  <Input label="Entry Taker Fee (%)" type="number" step="any" min="0" value={localValues.hedgeEntryFee} onChange={e => handleInputChange('hedgeEntryFee', e.target.value)} onFocus={setFocus('hedgeEntryFee')} onBlur={clearFocus} placeholder="0" />
+                  <Input label="Exit Taker Fee (%)" type="number" step="any" min="0" value={localValues.hedgeExitFee} onChange={e => handleInputChange('hedgeExitFee', e.target.value)} onFocus={setFocus('hedgeExitFee')} onBlur={clearFocus} placeholder="0" />
+                  <div className="md:col-span-2">
+                      <label htmlFor={`funding-schedule-${simulation.id}`} className="mb-1.5 text-sm font-medium text-slate-400 block">Funding Schedule</label>
+                      <p className="text-sm text-slate-400 mb-2">
+                          One "day, rate" or "date, rate" per line (%/day). Each rate applies from its day until the next one.
+                      </p>
+                      <textarea
+                        id={`funding-schedule-${simulation.id}`}
+                        rows={3}
+                        value={localValues.fundingSchedule}
+                        onChange={e => handleFundingScheduleChange(e.target.value)}
+                        placeholder={'0, 0.01\n30, 0.03'}
+                        className="bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-slate-200 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-colors w-full"
+                      />
+                      <input ref={fundingInputRef} type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleFundingFile} aria-label="Funding rate file" />
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                          <Button onClick={() => fundingInputRef.current?.click()} variant="secondary" size="sm">Import Daily Rates</Button>
+                          {simulation.fundingScheduleName && (
+                            <span className="text-sm text-slate-400">{simulation.fundingScheduleName} · {simulation.fundingSchedule?.length} rates</span>
+                          )}
+                      </div>
+                      {fundingErrors.length > 0 && (
+                        <ul className="mt-3 text-sm text-red-400 list-disc list-inside space-y-0.5" role="alert">
+                          {fundingErrors.map((error, i) => <li key={i}>{error}</li>)}
+                        </ul>
+                      )}
+                  </div>
+              </div>
+            )}
+            {isHedgeEnabled && marginHealth.length > 0 && (
+              <div className="mt-6 animate-fade-in">
+                  <h4 className="text-md font-semibold text-slate-400 mb-2">Margin Health</h4>
+                  <div className="grid grid-cols-2 gap-4 mb-3">
+                      <Stat label={`Liquidation Price (${simulation.shortToken === 'A' ? simulation.tokenA : simulation.tokenB})`} value={calculations.entryLiquidationPrice !== null ? calculations.entryLiquidationPrice.toLocaleString('en-US', { style: 'currency', currency: 'USD' }) : '---'} subValue="(at entry)" />
+                      <Stat label="Liquidated" value={calculations.liquidationDay !== null ? `Day ${calculations.liquidationDay}` : 'No'} valueColor={calculations.liquidationDay !== null ? 'text-red-400' : 'text-green-400'} />
+                  </div>
+                  <div className="h-48 md:h-64 bg-slate-800/30 rounded-lg p-2">
+                      <Chart series={marginHealth} valueFormat="percent" markers={chartMarkers} title={`${simulation.protocol} margin health`} />
+                  </div>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 pt-4 border-t border-slate-800">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-lg font-semibold text-slate-300">Monte Carlo Analysis</h3>
+              <Toggle enabled={isMonteCarloEnabled} onChange={enabled => onUpdate(simulation.id, { isMonteCarloEnabled: enabled })} label="Enable Monte Carlo" />
+            </div>
+            {isMonteCarloEnabled && (
+              <div className="animate-fade-in">
+                <p className="text-sm text-slate-400 mb-4 -mt-1">
+                    Simulates random price paths (geometric Brownian motion) from the initial prices. Volatility and drift are annualized.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <Input label={`${simulation.tokenA} Volatility (%)`} type="number" step="any" value={localValues.volatilityA} onChange={e => handleInputChange('volatilityA', e.target.value)} onFocus={setFocus('volatilityA')} onBlur={clearFocus} />
+                    <Input label={`${simulation.tokenA} Drift (%)`} type="number" step="any" value={localValues.driftA} onChange={e => handleInputChange('driftA', e.target.value)} onFocus={setFocus('driftA')} onBlur={clearFocus} />
+                    <Input label={`${simulation.tokenB} Volatility (%)`} type="number" step="any" value={localValues.volatilityB} onChange={e => handleInputChange('volatilityB', e.target.value)} onFocus={setFocus('volatilityB')} onBlur={clearFocus} />
+                    <Input label={`${simulation.tokenB} Drift (%)`} type="number" step="any" value={localValues.driftB} onChange={e => handleInputChange('driftB', e.target.value)} onFocus={setFocus('driftB')} onBlur={clearFocus} />
+                    <Input label="Paths" type="number" step="1" min="1" value={localValues.monteCarloPaths} onChange={e => handleInputChange('monteCarloPaths', e.target.value)} onFocus={setFocus('monteCarloPaths')} onBlur={clearFocus} />
+                    <Input label="Seed" type="number" step="1" value={localValues.monteCarloSeed} onChange={e => handleInputChange('monteCarloSeed', e.target.value)} onFocus={setFocus('monteCarloSeed')} onBlur={clearFocus} />
+                </div>
+                <div className="mt-4">
+                    <Button onClick={runMonteCarlo} disabled={monteCarlo.isRunning} className="w-full md:w-auto" variant="secondary">
+                        <SyncIcon className={`w-5 h-5 mr-2 ${monteCarlo.isRunning ? 'animate-spin' : ''}`} />
+                        {monteCarlo.isRunning ? 'Running...' : 'Run Monte Carlo'}
+                    </Button>
+                </div>
+                {monteCarlo.error && (
+                  <p className="mt-3 text-sm text-red-400">{monteCarlo.error}</p>
+                )}
+                {monteCarlo.summary && (
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-4">
+                      <Stat label="Mean Net Return" value={monteCarlo.summary.meanReturn.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} valueColor={monteCarlo.summary.meanReturn < 0 ? 'text-red-400' : 'text-green-400'} />
+                      <Stat label="Median Net Return" value={monteCarlo.summary.medianReturn.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} valueColor={monteCarlo.summary.medianReturn < 0 ? 'text-red-400' : 'text-green-400'} />
+                      <Stat label="5th / 95th Percentile" value={monteCarlo.summary.p5Return.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} subValue={`/ ${monteCarlo.summary.p95Return.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}`} valueColor={monteCarlo.summary.p5Return < 0 ? 'text-red-400' : 'text-green-400'} />
+                      <Stat label="Ends Out of Range" value={`${(monteCarlo.summary.probOutOfRange * 100).toFixed(1)}%`} />
+                      <Stat label="Expected Time in Range" value={`${monteCarlo.summary.expectedDaysInRange.toFixed(1)} days`} subValue={monteCarlo.summary.duration > 0 ? `(${(monteCarlo.summary.expectedDaysInRange / monteCarlo.summary.duration * 100).toFixed(1)}%)` : undefined} />
+                      <Stat label="Paths" value={monteCarlo.summary.paths.toLocaleString('en-US')} />
+                  </div>
+                )}
               </div>
             )}
           </div>
+          </fieldset>
 
           <div className="mt-6 pt-4 border-t border-slate-800">
             <h3 className="text-lg font-semibold text-slate-300 mb-3">Projected Results</h3>
-            <PriceRangeBar {...calculations.priceRange} tokenA={simulation.tokenA} tokenB={simulation.tokenB} />
+            {hasRange && <PriceRangeBar {...calculations.priceRange} tokenA={simulation.tokenA} tokenB={simulation.tokenB} />}
             
             <div className="mt-6">
                 <h4 className="text-md font-semibold text-slate-400 mb-2">Performance Over Time</h4>
                 <div className="h-64 md:h-80 -mx-4 md:mx-0 bg-slate-800/30 rounded-lg p-2">
-                    <Chart data={chartData} />
+                    <Chart series={performanceSeries} markers={performanceMarkers} title={`${simulation.protocol} performance`} />
                 </div>
+                {calculations.rangeResetCount > 0 && (
+                  <p className="text-xs text-slate-500 mt-1">Amber lines mark range re-centering.</p>
+                )}
+            </div>
+
+            {hasTimeline && (payoff.curve || payoff.error) && (
+              <div className="mt-6">
+                  <h4 className="text-md font-semibold text-slate-400 mb-2">Payoff at Day {simulation.duration}</h4>
+                  {payoff.error && (
+                    <p className="mb-2 text-sm text-red-400">{payoff.error}</p>
+                  )}
+                  {payoff.curve && (
+                    <>
+                      <div className={`h-64 md:h-80 -mx-4 md:mx-0 bg-slate-800/30 rounded-lg p-2 transition-opacity ${payoff.isRunning ? 'opacity-60' : ''}`} aria-busy={payoff.isRunning}>
+                          <PayoffChart curve={payoff.curve} tokenA={simulation.tokenA} showHedge={isHedgeEnabled} />
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">
+                          Value at the end if {simulation.tokenA} ends at each price, with {simulation.tokenB} at its projected price. The dotted line is the initial investment.
+                      </p>
+                    </>
+                  )}
+              </div>
+            )}
+
+            {scenarioResults.length > 0 && (
+              <div className="mt-6 animate-fade-in">
+                  <h4 className="text-md font-semibold text-slate-400 mb-2 border-b border-slate-700/50 pb-1">Scenario Matrix</h4>
+                  <div className="overflow-x-auto mt-3">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-slate-400 border-b border-slate-700">
+                          <th className="text-left font-medium py-2 pr-2">Scenario</th>
+                          <th className="text-right font-medium py-2 px-2">{simulation.tokenA} Price</th>
+                          <th className="text-right font-medium py-2 px-2">Days</th>
+                          <th className="text-right font-medium py-2 px-2">Fees</th>
+                          <th className="text-right font-medium py-2 px-2">IL</th>
+                          <th className="text-right font-medium py-2 px-2">LP Net Return</th>
+                          <th className="text-right font-medium py-2 px-2">Total Net Return</th>
+                          <th className="text-right font-medium py-2 pl-2">Ends</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {scenarioResults.map(({ scenario, simulation: scenarioSim, results }, index) => (
+                          <tr key={scenario.id} className="border-b border-slate-800 last:border-0">
+                            <td className="py-1.5 pr-2 text-slate-300 whitespace-nowrap">
+                              <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}></span>
+                              {scenario.name || `Scenario ${index + 1}`}
+                            </td>
+                            <td className="py-1.5 px-2 text-right font-mono text-slate-300">{scenario.priceA.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</td>
+                            <td className="py-1.5 px-2 text-right font-mono text-slate-300">{scenarioSim.duration}</td>
+                            <td className="py-1.5 px-2 text-right font-mono text-green-400">{results.earnedFees.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</td>
+                            <td className={`py-1.5 px-2 text-right font-mono ${results.impermanentLoss < 0 ? 'text-red-400' : 'text-slate-200'}`}>{results.impermanentLoss.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</td>
+                            <td className={`py-1.5 px-2 text-right font-mono ${results.lpNetReturn < 0 ? 'text-red-400' : 'text-green-400'}`}>{results.lpNetReturn.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</td>
+                            <td className={`py-1.5 px-2 text-right font-mono whitespace-nowrap ${results.totalNetReturn < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                              {results.totalNetReturn.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} <span className="text-slate-500">({results.totalNetReturnPct.toFixed(2)}%)</span>
+                            </td>
+                            <td className={`py-1.5 pl-2 text-right ${results.isInRange ? 'text-cyan-400' : 'text-red-400'}`}>{results.isInRange ? 'In range' : 'Out of range'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="h-64 md:h-80 -mx-4 md:mx-0 bg-slate-800/30 rounded-lg p-2 mt-4">
+                      <Chart series={scenarioSeries} title={`${simulation.protocol} scenarios`} />
+                  </div>
+              </div>
+            )}
+
+            <div className="mt-6">
+                <div className="flex justify-between items-center border-b border-slate-700/50 pb-1">
+                    <h4 className="text-md font-semibold text-slate-400">Sensitivity</h4>
+                    <Button onClick={() => setIsSensitivityOpen(open => !open)} variant="secondary" size="sm">
+                        {isSensitivityOpen ? 'Hide Heatmap' : 'Show Heatmap'}
+                    </Button>
+                </div>
+                {isSensitivityOpen && (
+                  <div className="mt-3">
+                    <SensitivityHeatmap simulation={simulation} onApply={readOnly ? undefined : applyChanges} />
+                  </div>
+                )}
             </div>
 
             <div className="mt-6">
@@ -653,16 +1314,61 @@ const SimulationCard: React.FC<SimulationCardProps> = ({ simulation, onUpdate, o
                     <Stat label="Impermanent Loss" value={calculations.impermanentLoss.toLocaleString('en-US', { style: 'currency', 'currency': 'USD' })} subValue={`(${calculations.impermanentLossPct.toFixed(2)}%)`} valueColor={calculations.impermanentLoss < 0 ? 'text-red-400' : 'text-green-400'} />
                     <Stat label="HODL Value" value={calculations.holdValue.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} />
                     <Stat label="Final LP Value" value={calculations.finalLpValue.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} />
+                    {isTransactionCostEnabled && (
+                      <>
+                        <Stat label="Transaction Costs" value={calculations.totalTransactionCosts.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} subValue="(gas + slippage)" valueColor={calculations.totalTransactionCosts < 0 ? 'text-red-400' : 'text-slate-50'} />
+                        <Stat label="Break-even" value={calculations.breakEvenDays === null ? 'Never' : `${calculations.breakEvenDays.toFixed(1)} days`} subValue={calculations.breakEvenDays !== null && calculations.breakEvenDays > simulation.duration ? '(beyond duration)' : undefined} valueColor={calculations.breakEvenDays === null || calculations.breakEvenDays > simulation.duration ? 'text-red-400' : 'text-slate-50'} />
+                        <div className="col-span-2 text-xs text-slate-500 -mt-2">
+                          Mint gas {calculations.transactionCosts.mintGas.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} · Slippage {calculations.transactionCosts.mintSlippage.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} · Collects {calculations.transactionCosts.collectGas.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} · Range resets {calculations.transactionCosts.rangeResets.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} · Burn gas {calculations.transactionCosts.burnGas.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
+                        </div>
+                      </>
+                    )}
                      <Stat label="LP Net Return" value={calculations.lpNetReturn.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} subValue={`(${calculations.lpNetReturnPct.toFixed(2)}%)`} valueColor={calculations.lpNetReturn < 0 ? 'text-red-400' : 'text-green-400'} className="col-span-2" />
                 </div>
             </div>
+
+            {rangeStrategy !== 'never' && (
+              <div className="mt-6 animate-fade-in">
+                  <h4 className="text-md font-semibold text-slate-400 mb-2 border-b border-slate-700/50 pb-1">Range Epochs</h4>
+                  <div className="grid grid-cols-2 gap-4 mt-3">
+                      <Stat label="Range Resets" value={calculations.rangeResetCount} />
+                      <Stat label="Reset Costs" value={calculations.rangeResetCosts.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} subValue="(swap fees + gas)" valueColor={calculations.rangeResetCosts < 0 ? 'text-red-400' : 'text-slate-50'} />
+                  </div>
+                  <div className="overflow-x-auto mt-3">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-slate-400 border-b border-slate-700">
+                          <th className="text-left font-medium py-2 pr-2">Days</th>
+                          <th className="text-right font-medium py-2 px-2">Range ({simulation.tokenA}/{simulation.tokenB})</th>
+                          <th className="text-right font-medium py-2 px-2">Fees</th>
+                          <th className="text-right font-medium py-2 px-2">IL</th>
+                          <th className="text-right font-medium py-2 pl-2">Reset Cost</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {calculations.rangeEpochs.map(epoch => (
+                          <tr key={epoch.startDay} className="border-b border-slate-800 last:border-0">
+                            <td className="py-1.5 pr-2 text-slate-300 whitespace-nowrap">{epoch.startDay} – {epoch.endDay}</td>
+                            <td className="py-1.5 px-2 text-right font-mono text-slate-300 whitespace-nowrap">{epoch.lowerPrice.toPrecision(5)} – {epoch.upperPrice.toPrecision(5)}</td>
+                            <td className="py-1.5 px-2 text-right font-mono text-green-400">{epoch.earnedFees.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</td>
+                            <td className={`py-1.5 px-2 text-right font-mono ${epoch.impermanentLoss < 0 ? 'text-red-400' : 'text-slate-200'}`}>{epoch.impermanentLoss.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</td>
+                            <td className="py-1.5 pl-2 text-right font-mono text-slate-400">{epoch.resetCost.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+              </div>
+            )}
             
-            {isHedgeEnabled && simulation.shortAmount > 0 && (
+            {isHedgeEnabled && (hedgeMode === 'deltaNeutral' || simulation.shortAmount > 0) && (
               <div className="mt-6 animate-fade-in">
                   <h4 className="text-md font-semibold text-slate-400 mb-2 border-b border-slate-700/50 pb-1">Hedge Performance</h4>
                   <div className="grid grid-cols-2 gap-4 mt-3">
                       <Stat label="Short P&L" value={calculations.shortPnl.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} valueColor={calculations.shortPnl < 0 ? 'text-red-400' : 'text-green-400'} />
                       <Stat label="Funding Cost" value={calculations.fundingPnl.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} valueColor={calculations.fundingPnl < 0 ? 'text-red-400' : 'text-green-400'} />
+                      <Stat label="Trading Costs" value={calculations.hedgeCosts.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} subValue={hedgeMode === 'deltaNeutral' ? `(${calculations.rebalanceCount} rebalance${calculations.rebalanceCount === 1 ? '' : 's'})` : undefined} valueColor={calculations.hedgeCosts < 0 ? 'text-red-400' : 'text-slate-50'} />
+                      <Stat label="Residual Unhedged P&L" value={calculations.residualPnl.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} subValue="(LP price P&L + short)" valueColor={calculations.residualPnl < 0 ? 'text-red-400' : 'text-green-400'} />
                   </div>
               </div>
             )}
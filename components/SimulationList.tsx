@@ -5,10 +5,15 @@ import SimulationCard from './SimulationCard';
 interface SimulationListProps {
   simulations: Simulation[];
   updateSimulation: (id: string, updatedSim: Partial<Simulation>) => void;
+  refreshSimulation: (id: string, updatedSim: Partial<Simulation>) => void;
   removeSimulation: (id: string) => void;
+  duplicateSimulation: (id: string) => void;
+  saveAsTemplate: (id: string) => void;
+  selectedIds: string[];
+  onToggleSelect: (id: string) => void;
 }
 
-const SimulationList: React.FC<SimulationListProps> = ({ simulations, updateSimulation, removeSimulation }) => {
+const SimulationList: React.FC<SimulationListProps> = ({ simulations, updateSimulation, refreshSimulation, removeSimulation, duplicateSimulation, saveAsTemplate, selectedIds, onToggleSelect }) => {
   if (simulations.length === 0) {
     return (
       <div className="text-center py-20">
@@ -25,8 +30,13 @@ const SimulationList: React.FC<SimulationListProps> = ({ simulations, updateSimu
           key={sim.id}
           simulation={sim}
           onUpdate={updateSimulation}
+          onRefresh={refreshSimulation}
           onRemove={removeSimulation}
+          onDuplicate={duplicateSimulation}
+          onSaveTemplate={saveAsTemplate}
           defaultExpanded={index === 0}
+          isSelected={selectedIds.includes(sim.id)}
+          onToggleSelect={onToggleSelect}
         />
       ))}
     </div>
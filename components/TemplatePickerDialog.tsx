@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { type Simulation, type SimulationTemplate } from '../types';
+import { DEFAULT_TEMPLATE_ID, createSimulationFromTemplate, findCurrentPriceA } from '../services/templates';
+import { getProtocol } from '../services/protocols';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import TrashIcon from './icons/TrashIcon';
+
+interface TemplatePickerDialogProps {
+  templates: SimulationTemplate[];
+  // Existing simulations, which supply the current price of a template's pair.
+  simulations: Simulation[];
+  onCreate: (simulation: Simulation) => void;
+  onDeleteTemplate: (id: string) => void;
+  onCancel: () => void;
+}
+
+const formatPct = (value: number) => `${Number(value.toFixed(2))}%`;
+
+const describeRange = (template: SimulationTemplate) =>
+  getProtocol(template.settings.protocolId).invariant === 'concentrated'
+    ? `-${formatPct(template.rangeLowerPct)} / +${formatPct(template.rangeUpperPct)}`
+    : 'Full range';
+
+const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({ templates, simulations, onCreate, onDeleteTemplate, onCancel }) => {
+  const initial = templates.find(template => template.id === DEFAULT_TEMPLATE_ID) ?? templates[0];
+  const [selectedId, setSelectedId] = useState(initial?.id ?? null);
+  // Without a current price for the pair the field starts empty rather than at the saved price.
+  const currentPriceText = (template: SimulationTemplate | undefined) =>
+    template ? findCurrentPriceA(template, simulations)?.toString() ?? '' : '';
+  const [priceA, setPriceA] = useState(() => currentPriceText(initial));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+  const parsedPriceA = parseFloat(priceA);
+  const hasPriceA = isFinite(parsedPriceA) && parsedPriceA > 0;
+
+  const select = (template: SimulationTemplate) => {
+    setSelectedId(template.id);
+    setPriceA(currentPriceText(template));
+    setErrors([]);
+  };
+
+  const deleteTemplate = (template: SimulationTemplate) => {
+    if (template.id === selectedId) setSelectedId(null);
+    onDeleteTemplate(template.id);
+  };
+
+  const create = () => {
+    if (!selected || !hasPriceA) return;
+    const result = createSimulationFromTemplate(selected, parsedPriceA);
+    if (result.simulation) {
+      onCreate(result.simulation);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  const renderTemplate = (template: SimulationTemplate) => {
+    const isSelected = template.id === selectedId;
+    return (
+      <li key={template.id} className="flex items-stretch gap-2">
+        <button
+          type="button"
+          onClick={() => select(template)}
+          aria-pressed={isSelected}
+          className={`flex-1 min-w-0 text-left px-3 py-2 rounded-md border transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 ${isSelected ? 'border-cyan-500 bg-cyan-500/10' : 'border-slate-700 bg-slate-800/50 hover:border-slate-500'}`}
+        >
+          <span className="block font-semibold text-slate-100 truncate">{template.name}</span>
+          <span className="block text-xs text-slate-400 truncate">
+            <span className="font-mono">{template.settings.tokenA}/{template.settings.tokenB}</span> · {template.settings.protocol} · {describeRange(template)}
+          </span>
+        </button>
+        {!template.builtIn && (
+          <Button onClick={() => deleteTemplate(template)} variant="danger" size="sm" className="!p-2 self-center" aria-label={`Delete template ${template.name}`}>
+            <TrashIcon className="w-4 h-4" />
+          </Button>
+        )}
+      </li>
+    );
+  };
+
+  const builtIn = templates.filter(template => template.builtIn);
+  const userTemplates = templates.filter(template => !template.builtIn);
+
+  return (
+    <Modal
+      title="New Simulation"
+      onClose={onCancel}
+      footer={
+        <>
+          <Button onClick={onCancel} variant="secondary" size="sm">Cancel</Button>
+          <Button onClick={create} variant="primary" size="sm" disabled={!selected || !hasPriceA}>Create</Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <section>
+          <h3 className="text-sm font-semibold text-slate-400 mb-2">Built-in</h3>
+          <ul className="space-y-2">{builtIn.map(renderTemplate)}</ul>
+        </section>
+        <section>
+          <h3 className="text-sm font-semibold text-slate-400 mb-2">My Templates</h3>
+          {userTemplates.length > 0 ? (
+            <ul className="space-y-2">{userTemplates.map(renderTemplate)}</ul>
+          ) : (
+            <p className="text-sm text-slate-500">Save a simulation as a template from its card to reuse its settings here.</p>
+          )}
+        </section>
+        {selected && (
+          <div>
+            <Input
+              label={`Starting ${selected.settings.tokenA} Price`}
+              type="number"
+              step="any"
+              min="0"
+              placeholder={`Today's ${selected.settings.tokenA} price`}
+              value={priceA}
+              onChange={e => setPriceA(e.target.value)}
+            />
+            <p className="text-xs text-slate-500 mt-1.5">
+              Amounts keep their USD value and the range is placed around this price. The template was saved at {selected.settings.initialPriceA.toLocaleString('en-US')}.
+            </p>
+          </div>
+        )}
+        {errors.length > 0 && (
+          <div role="alert">
+            <p className="text-sm text-red-400 mb-2">The template could not be used:</p>
+            <ul className="text-sm text-red-400 list-disc list-inside space-y-0.5 font-mono">
+              {errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default TemplatePickerDialog;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { type TokenInfo } from '../types';
+import { DEFAULT_TOKENS, normalizeSymbol, saveTokens } from '../services/tokens';
+import { listPriceProviders } from '../services/priceProviders';
+import { useTokens } from '../hooks/useTokens';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import TrashIcon from './icons/TrashIcon';
+
+interface TokenRegistryDialogProps {
+  onClose: () => void;
+}
+
+// Inputs are edited as text and checked together on save.
+interface TokenRow {
+  key: number;
+  symbol: string;
+  decimals: string;
+  pegged: boolean;
+  volatility: string;
+  priceProviderId: string;
+}
+
+let nextRowKey = 0;
+
+const toRow = (token: TokenInfo): TokenRow => ({
+  key: nextRowKey++,
+  symbol: token.symbol,
+  decimals: token.decimals.toString(),
+  pegged: token.pegged,
+  volatility: token.volatility.toString(),
+  priceProviderId: token.priceProviderId ?? '',
+});
+
+const parseRows = (rows: TokenRow[]): { tokens: TokenInfo[]; errors: string[] } => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const tokens = rows.map((row, i): TokenInfo => {
+    const symbol = normalizeSymbol(row.symbol);
+    const decimals = Number(row.decimals);
+    const volatility = Number(row.volatility);
+    const name = symbol || `Row ${i + 1}`;
+    if (!symbol) errors.push(`Row ${i + 1}: a symbol is required.`);
+    else if (seen.has(symbol)) errors.push(`${symbol}: listed more than once.`);
+    if (row.decimals.trim() === '' || !Number.isInteger(decimals) || decimals < 0) errors.push(`${name}: decimals must be a whole number of at least 0.`);
+    if (row.volatility.trim() === '' || !isFinite(volatility) || volatility < 0) errors.push(`${name}: volatility must be a number of at least 0.`);
+    seen.add(symbol);
+    return {
+      symbol,
+      decimals,
+      pegged: row.pegged,
+      volatility,
+      ...(row.priceProviderId ? { priceProviderId: row.priceProviderId } : {}),
+    };
+  });
+  return { tokens, errors };
+};
+
+const TokenRegistryDialog: React.FC<TokenRegistryDialogProps> = ({ onClose }) => {
+  const tokens = useTokens();
+  const [rows, setRows] = useState(() => tokens.map(toRow));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateRow = (key: number, changes: Partial<TokenRow>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, toRow({ symbol: '', decimals: 18, pegged: false, volatility: 80 })]);
+  };
+
+  const save = () => {
+    const result = parseRows(rows);
+    if (result.errors.length > 0) {
+      setErrors(result.errors);
+      return;
+    }
+    saveTokens(result.tokens);
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Token Registry"
+      onClose={onClose}
+      footer={
+        <>
+          <Button onClick={() => setRows(DEFAULT_TOKENS.map(toRow))} variant="secondary" size="sm" className="mr-auto">Reset to Defaults</Button>
+          <Button onClick={onClose} variant="secondary" size="sm">Cancel</Button>
+          <Button onClick={save} variant="primary" size="sm">Save</Button>
+        </>
+      }
+    >
+      <p className="text-sm text-slate-400 mb-4">
+        Entering a listed symbol in a simulation fills in its decimals and Monte Carlo volatility, and the price provider of a token that is not pegged. Pegged tokens, such as stablecoins, barely move in the fallback price feed and are not picked as the short when a hedge is switched on.
+      </p>
+      <ul className="space-y-3">
+        {rows.map(row => {
+          const id = `token-${row.key}`;
+          return (
+            <li key={row.key} className="p-3 rounded-lg border border-slate-700 bg-slate-800/50 space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                <Input id={`${id}-symbol`} label="Symbol" value={row.symbol} onChange={e => updateRow(row.key, { symbol: e.target.value.toUpperCase() })} />
+                <Input id={`${id}-decimals`} label="Decimals" type="number" step="1" min="0" value={row.decimals} onChange={e => updateRow(row.key, { decimals: e.target.value })} />
+                <Input id={`${id}-volatility`} label="Volatility (%)" type="number" step="any" min="0" value={row.volatility} onChange={e => updateRow(row.key, { volatility: e.target.value })} />
+              </div>
+              <div className="flex items-end gap-3">
+                <Select id={`${id}-provider`} label="Price Provider" value={row.priceProviderId} onChange={e => updateRow(row.key, { priceProviderId: e.target.value })}>
+                  <option value="">Keep the simulation's</option>
+                  {listPriceProviders().map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.name}</option>
+                  ))}
+                </Select>
+                <label className="flex items-center gap-2 h-[42px] text-sm text-slate-300 whitespace-nowrap cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={row.pegged}
+                    onChange={e => updateRow(row.key, { pegged: e.target.checked })}
+                    className="w-4 h-4 accent-cyan-500"
+                  />
+                  Pegged
+                </label>
+                <Button onClick={() => setRows(prev => prev.filter(other => other.key !== row.key))} variant="danger" size="sm" className="!p-2 mb-1.5" aria-label={`Remove ${row.symbol || 'token'}`}>
+                  <TrashIcon className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <Button onClick={addRow} variant="secondary" size="sm" className="mt-3">Add Token</Button>
+      {errors.length > 0 && (
+        <div role="alert" className="mt-4">
+          <p className="text-sm text-red-400 mb-2">The registry was not saved:</p>
+          <ul className="text-sm text-red-400 list-disc list-inside space-y-0.5 font-mono">
+            {errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default TokenRegistryDialog;
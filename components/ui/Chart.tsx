@@ -1,16 +1,42 @@
-import React, { useState, useMemo, useRef, useCallback } from 'react';
+import React, { useState, useMemo, useRef, useCallback, useId } from 'react';
+import { downloadSvg, downloadSvgAsPng } from '../../services/download';
+import Toast from './Toast';
 
-interface ChartDataPoint {
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: { day: number; value: number }[];
+  dashed?: boolean;
+  // Starts switched off in the legend; the user can still toggle it on.
+  hiddenByDefault?: boolean;
+}
+
+// A vertical line marking an event on a given day. Frequent events can leave out the label.
+export interface ChartMarker {
   day: number;
-  totalValue: number;
-  holdValue: number;
-  earnedFees: number;
+  label?: string;
+  color: string;
 }
 
 interface ChartProps {
-  data: ChartDataPoint[];
+  series: ChartSeries[];
+  // How values are shown on the axis and in the tooltip.
+  valueFormat?: 'currency' | 'percent';
+  markers?: ChartMarker[];
+  // Accessible name of the chart, also used for downloaded file names.
+  title?: string;
 }
 
+export const SERIES_COLORS = ['#22d3ee', '#f472b6', '#a3e635', '#fbbf24', '#a78bfa', '#fb923c', '#34d399', '#f87171'];
+
+const PADDING = { top: 20, right: 20, bottom: 40, left: 70 };
+const WIDTH = 800;
+const HEIGHT = 400;
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+// Drags narrower than this (in viewBox units) are treated as clicks rather than a zoom.
+const MIN_BRUSH_WIDTH = 8;
+
 const formatCurrency = (value: number) => {
     if (Math.abs(value) >= 1e6) {
         return `$${(value / 1e6).toFixed(2)}M`;
@@ -21,161 +47,387 @@ const formatCurrency = (value: number) => {
     return `$${value.toFixed(2)}`;
 }
 
-const Chart: React.FC<ChartProps> = ({ data }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
-  const [tooltip, setTooltip] = useState<{ x: number; y: number; data: ChartDataPoint } | null>(null);
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
 
-  const PADDING = { top: 20, right: 20, bottom: 40, left: 60 };
-  const WIDTH = 800;
-  const HEIGHT = 400;
+// Step of 1, 2 or 5 times a power of ten that splits `span` into about `count` intervals.
+const niceStep = (span: number, count: number): number => {
+  const raw = span / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10) * magnitude;
+};
 
-  const chartData = useMemo(() => {
-    if (!data || data.length === 0) return null;
+// Ticks on a nice step covering [min, max]; the first and last tick are the axis domain.
+const niceTicks = (min: number, max: number, count: number): number[] => {
+  const step = niceStep(max - min, count);
+  const first = Math.floor(min / step);
+  const last = Math.ceil(max / step);
+  const ticks: number[] = [];
+  for (let i = first; i <= last; i++) ticks.push(Number((i * step).toPrecision(12)));
+  return ticks;
+};
 
-    const yMin = Math.min(...data.map(d => d.totalValue), ...data.map(d => d.holdValue));
-    const yMax = Math.max(...data.map(d => d.totalValue), ...data.map(d => d.holdValue));
-    const xMax = data[data.length - 1].day;
+const valueAt = (line: ChartSeries, day: number) => line.points.reduce((prev, curr) =>
+    Math.abs(curr.day - day) < Math.abs(prev.day - day) ? curr : prev
+).value;
 
-    // Create nice looking scales
-    const yRange = yMax - yMin;
-    const yDomainMin = Math.floor(yMin / 1000) * 1000;
-    const yDomainMax = Math.ceil(yMax / 1000) * 1000;
+// Series can cover part of the days only, e.g. an observed path followed by a projection.
+const coversDay = (line: ChartSeries, day: number) =>
+    line.points.length > 0 && day >= line.points[0].day && day <= line.points[line.points.length - 1].day;
 
-    const xScale = (day: number) => PADDING.left + (day / xMax) * (WIDTH - PADDING.left - PADDING.right);
-    const yScale = (value: number) => HEIGHT - PADDING.bottom - ((value - yDomainMin) / (yDomainMax - yDomainMin)) * (HEIGHT - PADDING.top - PADDING.bottom);
+const formatDay = (day: number) => Number.isInteger(day) ? day.toString() : day.toFixed(1);
 
-    const yAxisLabels = [];
-    const numTicks = 5;
-    for (let i = 0; i <= numTicks; i++) {
-        const value = yDomainMin + (i / numTicks) * (yDomainMax - yDomainMin);
-        yAxisLabels.push({ value, y: yScale(value) });
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+// Extra room around the chart in exported images for the title, axis titles and legend.
+const EXPORT_TITLE_HEIGHT = 36;
+const EXPORT_AXIS_TITLE_WIDTH = 20;
+const EXPORT_AXIS_TITLE_HEIGHT = 20;
+const EXPORT_LEGEND_ROW_HEIGHT = 20;
+// Rough width of a 12px label character, enough to wrap legend rows.
+const LEGEND_CHAR_WIDTH = 7;
+
+const createSvgElement = (tag: string, attributes: Record<string, string | number>, text?: string): SVGElement => {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
+
+// Stand-alone copy of the chart for downloads. On screen the title, axis meaning and legend
+// live in the surrounding HTML, so they are drawn into the image here; the cursor and an
+// unfinished zoom brush are left out.
+const createExportSvg = (chart: SVGSVGElement, title: string, valueLabel: string, legend: ChartSeries[]): SVGSVGElement => {
+  const contentWidth = WIDTH + EXPORT_AXIS_TITLE_WIDTH;
+  const rows: { line: ChartSeries; x: number }[][] = [[]];
+  let rowX = PADDING.left;
+  legend.forEach(line => {
+    const itemWidth = 20 + line.label.length * LEGEND_CHAR_WIDTH + 16;
+    if (rowX + itemWidth > contentWidth && rows[rows.length - 1].length > 0) {
+      rows.push([]);
+      rowX = PADDING.left;
     }
+    rows[rows.length - 1].push({ line, x: rowX });
+    rowX += itemWidth;
+  });
+  const legendTop = EXPORT_TITLE_HEIGHT + HEIGHT + EXPORT_AXIS_TITLE_HEIGHT;
+  const height = legendTop + rows.length * EXPORT_LEGEND_ROW_HEIGHT + 8;
+
+  const svg = createSvgElement('svg', { xmlns: SVG_NS, viewBox: `0 0 ${contentWidth} ${height}`, width: contentWidth, height, 'font-family': FONT_FAMILY }) as SVGSVGElement;
+  // The app's background, so the light text stays readable in any viewer.
+  svg.appendChild(createSvgElement('rect', { width: contentWidth, height, fill: '#0f172a' }));
+  svg.appendChild(createSvgElement('text', { x: PADDING.left + EXPORT_AXIS_TITLE_WIDTH, y: 24, fill: '#e2e8f0', 'font-size': 16, 'font-weight': 600 }, title));
 
-    const xAxisLabels = [];
-    const numXTicks = Math.min(xMax, 5);
-     for (let i = 0; i <= numXTicks; i++) {
-        const day = Math.round((i / numXTicks) * xMax);
-        xAxisLabels.push({ day, x: xScale(day) });
+  const plot = createSvgElement('g', { transform: `translate(${EXPORT_AXIS_TITLE_WIDTH} ${EXPORT_TITLE_HEIGHT})` });
+  Array.from(chart.childNodes).forEach(node => plot.appendChild(node.cloneNode(true)));
+  plot.querySelectorAll('.tooltip, .brush').forEach(element => element.remove());
+  svg.appendChild(plot);
+
+  const plotMiddleY = EXPORT_TITLE_HEIGHT + PADDING.top + PLOT_HEIGHT / 2;
+  svg.appendChild(createSvgElement('text', { x: 14, y: plotMiddleY, transform: `rotate(-90 14 ${plotMiddleY})`, 'text-anchor': 'middle', fill: '#94a3b8', 'font-size': 12 }, valueLabel));
+  svg.appendChild(createSvgElement('text', { x: EXPORT_AXIS_TITLE_WIDTH + PADDING.left + PLOT_WIDTH / 2, y: EXPORT_TITLE_HEIGHT + HEIGHT + 8, 'text-anchor': 'middle', fill: '#94a3b8', 'font-size': 12 }, 'Days'));
+
+  rows.forEach((row, i) => {
+    const y = legendTop + i * EXPORT_LEGEND_ROW_HEIGHT + 10;
+    row.forEach(({ line, x }) => {
+      svg.appendChild(createSvgElement('line', { x1: x, y1: y, x2: x + 14, y2: y, stroke: line.color, 'stroke-width': 2, ...(line.dashed ? { 'stroke-dasharray': '2 2' } : {}) }));
+      svg.appendChild(createSvgElement('text', { x: x + 20, y: y + 4, fill: '#cbd5e1', 'font-size': 12 }, line.label));
+    });
+  });
+  return svg;
+};
+
+const Chart: React.FC<ChartProps> = ({ series, valueFormat = 'currency', markers = [], title = 'Chart' }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const clipId = useId();
+  // Labels whose visibility the user flipped away from the series' default.
+  const [toggled, setToggled] = useState<Set<string>>(() => new Set());
+  const [zoom, setZoom] = useState<{ from: number; to: number } | null>(null);
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+  const [cursorDay, setCursorDay] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<{ id: number; message: string } | null>(null);
+
+  const formatValue = valueFormat === 'percent' ? formatPercent : formatCurrency;
+  const formatTooltipValue = (value: number) => valueFormat === 'percent'
+    ? `${value.toFixed(2)}%`
+    : value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+  const lines = useMemo(() => series.filter(line => line.points.length > 0), [series]);
+  const isVisible = useCallback(
+    (line: ChartSeries) => toggled.has(line.label) ? !!line.hiddenByDefault : !line.hiddenByDefault,
+    [toggled]
+  );
+
+  const chartData = useMemo(() => {
+    if (lines.length === 0) return null;
+    const visibleLines = lines.filter(isVisible);
+
+    const fullMin = Math.min(...lines.map(line => line.points[0].day));
+    const fullMax = Math.max(...lines.map(line => line.points[line.points.length - 1].day), fullMin + 1);
+    const xMin = zoom ? zoom.from : fullMin;
+    const xMax = zoom ? zoom.to : fullMax;
+
+    // Fit the y-axis to what is on screen: visible series within the zoomed days.
+    const values = visibleLines.flatMap(line => line.points.filter(p => p.day >= xMin && p.day <= xMax).map(p => p.value));
+    let yMin = values.length > 0 ? Math.min(...values) : 0;
+    let yMax = values.length > 0 ? Math.max(...values) : 1;
+    if (yMax === yMin) {
+      const padding = Math.max(Math.abs(yMax) * 0.05, 0.01);
+      yMin -= padding;
+      yMax += padding;
     }
+    const yTicks = niceTicks(yMin, yMax, 5);
+    const yDomainMin = yTicks[0];
+    const yDomainMax = yTicks[yTicks.length - 1];
+
+    const xScale = (day: number) => PADDING.left + ((day - xMin) / (xMax - xMin)) * PLOT_WIDTH;
+    const yScale = (value: number) => HEIGHT - PADDING.bottom - ((value - yDomainMin) / (yDomainMax - yDomainMin)) * PLOT_HEIGHT;
+    const dayAtX = (x: number) => xMin + ((x - PADDING.left) / PLOT_WIDTH) * (xMax - xMin);
 
-    const createPath = (key: 'totalValue' | 'holdValue') =>
-        data.map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(d.day)} ${yScale(d[key])}`).join(' ');
+    // Whole days only, so short zooms do not label fractions of a day.
+    const xStep = Math.max(1, Math.round(niceStep(xMax - xMin, 5)));
+    const xTicks: number[] = [];
+    for (let day = Math.ceil(xMin / xStep) * xStep; day <= xMax; day += xStep) xTicks.push(day);
+
+    const days = Array.from(new Set<number>(visibleLines.flatMap(line => line.points.map(p => p.day))))
+      .filter(day => day >= xMin && day <= xMax)
+      .sort((a, b) => a - b);
 
     return {
-        xScale, yScale, yAxisLabels, xAxisLabels,
-        totalValuePath: createPath('totalValue'),
-        holdValuePath: createPath('holdValue'),
+        xMin, xMax, xScale, yScale, dayAtX, xTicks, yTicks, days,
+        lines: visibleLines.map(line => ({
+            ...line,
+            path: line.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${xScale(p.day)} ${yScale(p.value)}`).join(' '),
+        })),
     };
-  }, [data]);
+  }, [lines, isVisible, zoom]);
 
-  const handleMouseMove = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
-    if (!chartData || !svgRef.current || data.length === 0) return;
+  // Mouse position in viewBox units, clamped to the plot area.
+  const toPlotX = useCallback((clientX: number) => {
+    if (!svgRef.current) return PADDING.left;
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * WIDTH;
+    return Math.max(PADDING.left, Math.min(WIDTH - PADDING.right, x));
+  }, []);
 
-    const svg = svgRef.current;
-    const rect = svg.getBoundingClientRect();
-    const svgX = event.clientX - rect.left;
+  const nearestDay = useCallback((day: number) => {
+    if (!chartData || chartData.days.length === 0) return null;
+    return chartData.days.reduce((prev, curr) => Math.abs(curr - day) < Math.abs(prev - day) ? curr : prev);
+  }, [chartData]);
 
-    const xMax = data[data.length - 1].day;
-    const day = (svgX - PADDING.left) / (WIDTH - PADDING.left - PADDING.right) * xMax;
+  const handleMouseDown = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    const x = toPlotX(event.clientX);
+    setBrush({ start: x, end: x });
+  };
 
-    const closestPoint = data.reduce((prev, curr) => 
-        Math.abs(curr.day - day) < Math.abs(prev.day - day) ? curr : prev
-    );
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!chartData) return;
+    const x = toPlotX(event.clientX);
+    if (brush) {
+      setBrush({ ...brush, end: x });
+      setCursorDay(null);
+    } else {
+      setCursorDay(nearestDay(chartData.dayAtX(x)));
+    }
+  };
 
-    setTooltip({
-        x: chartData.xScale(closestPoint.day),
-        y: chartData.yScale(closestPoint.totalValue),
-        data: closestPoint,
-    });
-  }, [chartData, data]);
+  const handleMouseUp = () => {
+    if (!chartData || !brush) return;
+    if (Math.abs(brush.end - brush.start) >= MIN_BRUSH_WIDTH) {
+      const from = chartData.dayAtX(Math.min(brush.start, brush.end));
+      const to = chartData.dayAtX(Math.max(brush.start, brush.end));
+      setZoom({ from, to });
+    }
+    setBrush(null);
+  };
 
   const handleMouseLeave = () => {
-    setTooltip(null);
+    setBrush(null);
+    setCursorDay(null);
+  };
+
+  // Arrow keys step the tooltip through the days, Home/End jump to either end and Escape hides it.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!chartData || chartData.days.length === 0) return;
+    const { days } = chartData;
+    const index = cursorDay === null ? -1 : days.indexOf(cursorDay);
+    let next: number | null;
+    switch (event.key) {
+      case 'ArrowRight': next = days[Math.min(days.length - 1, index + 1)]; break;
+      case 'ArrowLeft': next = days[index < 0 ? days.length - 1 : Math.max(0, index - 1)]; break;
+      case 'Home': next = days[0]; break;
+      case 'End': next = days[days.length - 1]; break;
+      case 'Escape': next = null; break;
+      default: return;
+    }
+    event.preventDefault();
+    setCursorDay(next);
+  };
+
+  const toggleSeries = (label: string) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (next.has(label)) next.delete(label); else next.add(label);
+      return next;
+    });
+  };
+
+  const fileName = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chart';
+
+  const createExport = () => svgRef.current
+    ? createExportSvg(svgRef.current, title, valueFormat === 'percent' ? 'Percent' : 'Value (USD)', lines.filter(isVisible))
+    : null;
+
+  const exportSvg = () => {
+    const svg = createExport();
+    if (svg) downloadSvg(svg, `${fileName}.svg`);
+  };
+
+  const exportPng = () => {
+    const svg = createExport();
+    if (!svg) return;
+    downloadSvgAsPng(svg, `${fileName}.png`).catch(error => {
+      console.error('PNG export failed:', error);
+      setExportError({ id: Date.now(), message: error instanceof Error ? error.message : 'Could not export the chart as PNG.' });
+    });
   };
-  
+  const dismissExportError = useCallback(() => setExportError(null), []);
+
   if (!chartData) {
     return (
-        <div className="w-full h-full flex items-center justify-center text-slate-500">
-            <p>Not enough data to display chart.</p>
-        </div>
+      <div className="w-full h-full flex items-center justify-center text-slate-500">
+          <p>Not enough data to display chart.</p>
+      </div>
     );
   }
 
+  const cursorX = cursorDay !== null ? chartData.xScale(cursorDay) : null;
+
   return (
-    <div className="w-full h-full relative font-sans">
+    <div
+      className="w-full h-full relative font-sans rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500"
+      tabIndex={0}
+      role="group"
+      aria-label={`${title}. Use the arrow keys to read values by day.`}
+      onKeyDown={handleKeyDown}
+      onBlur={() => setCursorDay(null)}
+    >
       <svg
         ref={svgRef}
         viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseLeave}
-        className="w-full h-full"
+        onDoubleClick={() => setZoom(null)}
+        className="w-full h-full select-none cursor-crosshair"
+        aria-hidden="true"
       >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={PADDING.left} y={PADDING.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} />
+          </clipPath>
+        </defs>
         <g className="grid-lines">
-            {chartData.yAxisLabels.map(({ y }) => (
-                <line key={y} x1={PADDING.left} y1={y} x2={WIDTH - PADDING.right} y2={y} stroke="#334155" strokeWidth="1" />
+            {chartData.yTicks.map(value => (
+                <line key={value} x1={PADDING.left} y1={chartData.yScale(value)} x2={WIDTH - PADDING.right} y2={chartData.yScale(value)} stroke="#334155" strokeWidth="1" />
             ))}
         </g>
-        
-        <g className="axes-labels">
-            {chartData.yAxisLabels.map(({ value, y }) => (
-                <text key={value} x={PADDING.left - 8} y={y + 4} textAnchor="end" fill="#94a3b8" fontSize="12">{formatCurrency(value)}</text>
+        <g className="axes-labels" fontFamily="ui-sans-serif, system-ui, sans-serif">
+            {chartData.yTicks.map(value => (
+                <text key={value} x={PADDING.left - 8} y={chartData.yScale(value) + 4} textAnchor="end" fill="#94a3b8" fontSize="12">{formatValue(value)}</text>
             ))}
-            {chartData.xAxisLabels.map(({ day, x }) => (
-                <text key={day} x={x} y={HEIGHT - PADDING.bottom + 16} textAnchor="middle" fill="#94a3b8" fontSize="12">{`Day ${day}`}</text>
+            {chartData.xTicks.map(day => (
+                <text key={day} x={chartData.xScale(day)} y={HEIGHT - PADDING.bottom + 16} textAnchor="middle" fill="#94a3b8" fontSize="12">{`Day ${day}`}</text>
             ))}
         </g>
-        
-        <path d={chartData.holdValuePath} fill="none" stroke="#64748b" strokeWidth="2" strokeDasharray="4 4" />
-        <path d={chartData.totalValuePath} fill="none" stroke="#22d3ee" strokeWidth="3" />
-        
-        {tooltip && (
+        <g clipPath={`url(#${clipId})`}>
+            {chartData.lines.map(line => (
+                <path key={line.label} d={line.path} fill="none" stroke={line.color} strokeWidth={line.dashed ? 2 : 2.5} strokeDasharray={line.dashed ? '4 4' : undefined} />
+            ))}
+        </g>
+        {markers
+          .filter(marker => marker.day >= chartData.xMin && marker.day <= chartData.xMax)
+          .map(marker => {
+            const x = chartData.xScale(marker.day);
+            return (
+              <g key={`${marker.color}-${marker.day}`} className="marker">
+                  <line x1={x} y1={PADDING.top} x2={x} y2={HEIGHT - PADDING.bottom} stroke={marker.color} strokeWidth={marker.label ? 2 : 1} strokeDasharray="6 4" />
+                  {marker.label && (
+                    <text x={x} y={PADDING.top - 6} textAnchor={x > WIDTH / 2 ? 'end' : 'start'} fill={marker.color} fontSize="12" fontWeight="600" fontFamily="ui-sans-serif, system-ui, sans-serif">{marker.label}</text>
+                  )}
+              </g>
+            );
+          })}
+        {brush && (
+            <rect className="brush" x={Math.min(brush.start, brush.end)} y={PADDING.top} width={Math.abs(brush.end - brush.start)} height={PLOT_HEIGHT} fill="#22d3ee" fillOpacity="0.12" stroke="#22d3ee" strokeOpacity="0.5" />
+        )}
+        {cursorX !== null && cursorDay !== null && (
             <g className="tooltip">
-                <line x1={tooltip.x} y1={PADDING.top} x2={tooltip.x} y2={HEIGHT - PADDING.bottom} stroke="#64748b" strokeWidth="1" />
-                <circle cx={tooltip.x} cy={tooltip.y} r="5" fill="#22d3ee" stroke="#0f172a" strokeWidth="2" />
-                <circle cx={tooltip.x} cy={chartData.yScale(tooltip.data.holdValue)} r="5" fill="#64748b" stroke="#0f172a" strokeWidth="2" />
+                <line x1={cursorX} y1={PADDING.top} x2={cursorX} y2={HEIGHT - PADDING.bottom} stroke="#64748b" strokeWidth="1" />
+                {chartData.lines.filter(line => coversDay(line, cursorDay)).map(line => (
+                    <circle key={line.label} cx={cursorX} cy={chartData.yScale(valueAt(line, cursorDay))} r="4" fill={line.color} stroke="#0f172a" strokeWidth="2" />
+                ))}
             </g>
         )}
       </svg>
-      {tooltip && (
-        <div 
-          className="absolute bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-lg p-3 text-sm text-slate-200 pointer-events-none transition-transform duration-100"
-          style={{ 
-            left: `${(tooltip.x / WIDTH) * 100}%`, 
-            top: `${(tooltip.y / HEIGHT) * 100}%`,
-            transform: `translate(-50%, -110%) ${tooltip.x > WIDTH / 2 ? 'translateX(-20px)' : 'translateX(20px)'}`
+      <div className="absolute top-0 right-2 flex items-center gap-1 text-xs">
+          {zoom && (
+            <button type="button" onClick={() => setZoom(null)} className="px-2 py-0.5 rounded bg-slate-700/80 text-slate-200 hover:bg-slate-600">
+              Reset zoom
+            </button>
+          )}
+          <button type="button" onClick={exportSvg} className="px-2 py-0.5 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800" aria-label={`Download ${title} as SVG`}>
+            SVG
+          </button>
+          <button type="button" onClick={exportPng} className="px-2 py-0.5 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800" aria-label={`Download ${title} as PNG`}>
+            PNG
+          </button>
+      </div>
+      {cursorX !== null && cursorDay !== null && (
+        <div
+          className="absolute top-8 bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-lg p-3 text-sm text-slate-200 pointer-events-none"
+          style={{
+            left: `${(cursorX / WIDTH) * 100}%`,
+            transform: cursorX > WIDTH / 2 ? 'translateX(calc(-100% - 12px))' : 'translateX(12px)'
           }}
+          role="status"
+          aria-live="polite"
         >
-          <div className="font-bold mb-2">Day {tooltip.data.day}</div>
-          <div className="flex items-center justify-between space-x-4">
-              <span className="text-slate-400">Total Value:</span> <span className="font-mono text-cyan-400">{tooltip.data.totalValue.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</span>
-          </div>
-          <div className="flex items-center justify-between">
-              <span className="text-slate-400">HODL Value:</span> <span className="font-mono">{tooltip.data.holdValue.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</span>
-          </div>
-          <div className="flex items-center justify-between">
-              <span className="text-slate-400">Earned Fees:</span> <span className="font-mono text-green-400">{tooltip.data.earnedFees.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}</span>
-          </div>
-          <div className="border-t border-slate-700 my-1.5"></div>
-           <div className="flex items-center justify-between">
-              <span className="text-slate-400">Net vs HODL:</span> 
-              <span className={`font-mono ${tooltip.data.totalValue >= tooltip.data.holdValue ? 'text-green-400' : 'text-red-400'}`}>
-                {(tooltip.data.totalValue - tooltip.data.holdValue).toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
-              </span>
-          </div>
+          <div className="font-bold mb-2">Day {formatDay(cursorDay)}</div>
+          {chartData.lines.filter(line => coversDay(line, cursorDay)).map(line => (
+            <div key={line.label} className="flex items-center justify-between space-x-4">
+                <span className="flex items-center text-slate-400"><span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: line.color }}></span>{line.label}</span>
+                <span className="font-mono">{formatTooltipValue(valueAt(line, cursorDay))}</span>
+            </div>
+          ))}
         </div>
       )}
-       <div className="absolute bottom-0 right-2 flex items-center space-x-4 text-xs text-slate-400 p-2">
-            <div className="flex items-center">
-                <div className="w-3 h-0.5 bg-cyan-400 mr-2"></div>
-                <span>Total Value</span>
-            </div>
-            <div className="flex items-center">
-                <svg width="12" height="4" className="mr-2"><line x1="0" y1="2" x2="12" y2="2" stroke="#64748b" strokeWidth="2" strokeDasharray="2 2"/></svg>
-                <span>HODL Value</span>
-            </div>
-       </div>
+      <div className="absolute bottom-0 right-2 flex flex-wrap justify-end items-center gap-x-3 text-xs p-2">
+          {lines.map(line => {
+            const visible = isVisible(line);
+            return (
+              <button
+                key={line.label}
+                type="button"
+                onClick={() => toggleSeries(line.label)}
+                aria-pressed={visible}
+                className={`flex items-center rounded px-1 hover:text-slate-200 ${visible ? 'text-slate-400' : 'text-slate-600 line-through'}`}
+              >
+                  <svg width="12" height="4" className="mr-2" aria-hidden="true">
+                    <line x1="0" y1="2" x2="12" y2="2" stroke={line.color} strokeWidth="2" strokeDasharray={line.dashed ? '2 2' : undefined} strokeOpacity={visible ? 1 : 0.4} />
+                  </svg>
+                  <span>{line.label}</span>
+              </button>
+            );
+          })}
+      </div>
+      {exportError && (
+        <Toast key={exportError.id} message={exportError.message} onDismiss={dismissExportError} />
+      )}
     </div>
   );
 };
 
-export default Chart;
\ No newline at end of file
+export default Chart;
@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+}
+
+const Modal: React.FC<ModalProps> = ({ title, onClose, children, footer }) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-slate-900 border border-slate-700 rounded-xl shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="px-6 pt-5 pb-3 border-b border-slate-800">
+          <h2 className="text-xl font-bold text-slate-100">{title}</h2>
+        </div>
+        <div className="px-6 py-4 overflow-y-auto text-slate-300">
+          {children}
+        </div>
+        {footer && (
+          <div className="px-6 py-4 border-t border-slate-800 flex flex-wrap justify-end gap-2">
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
@@ -0,0 +1,168 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { type PayoffCurve, type PayoffPoint } from '../../services/payoff';
+
+interface PayoffChartProps {
+  curve: PayoffCurve;
+  tokenA: string;
+  showHedge?: boolean;
+}
+
+interface PayoffLine {
+  label: string;
+  color: string;
+  value: (point: PayoffPoint) => number;
+  dashed?: boolean;
+}
+
+const PADDING = { top: 24, right: 20, bottom: 48, left: 70 };
+const WIDTH = 800;
+const HEIGHT = 400;
+
+const formatCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatAxis = (value: number) => {
+  if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (Math.abs(value) >= 1e3) return `$${(value / 1e3).toFixed(2)}K`;
+  return `$${value.toFixed(2)}`;
+};
+
+// Value at the end of the simulation against token A's end price, with the range bounds,
+// break-even prices and the current price marked.
+const PayoffChart: React.FC<PayoffChartProps> = ({ curve, tokenA, showHedge = false }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hovered, setHovered] = useState<PayoffPoint | null>(null);
+
+  const lines: PayoffLine[] = useMemo(() => [
+    { label: 'HODL', color: '#64748b', value: p => p.holdValue, dashed: true },
+    { label: 'LP only', color: '#f472b6', value: p => p.lpValue },
+    { label: 'LP + fees', color: '#22d3ee', value: p => p.lpWithFees },
+    ...(showHedge ? [{ label: 'LP + fees + hedge', color: '#a3e635', value: (p: PayoffPoint) => p.total }] : []),
+  ], [showHedge]);
+
+  const scales = useMemo(() => {
+    const { points } = curve;
+    if (points.length < 2) return null;
+    const values = points.flatMap(point => lines.map(line => line.value(point)));
+    const yMin = Math.min(...values, curve.initialInvestment);
+    const yMax = Math.max(...values, curve.initialInvestment);
+    const yPadding = (yMax - yMin) * 0.05 || Math.max(Math.abs(yMax) * 0.05, 1);
+    const yDomainMin = yMin - yPadding;
+    const yDomainMax = yMax + yPadding;
+    const xMin = points[0].priceA;
+    const xMax = points[points.length - 1].priceA;
+
+    const xScale = (price: number) => PADDING.left + ((price - xMin) / (xMax - xMin)) * (WIDTH - PADDING.left - PADDING.right);
+    const yScale = (value: number) => HEIGHT - PADDING.bottom - ((value - yDomainMin) / (yDomainMax - yDomainMin)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+    const numTicks = 5;
+    const xTicks = Array.from({ length: numTicks + 1 }, (_, i) => xMin + (i / numTicks) * (xMax - xMin));
+    const yTicks = Array.from({ length: numTicks + 1 }, (_, i) => yDomainMin + (i / numTicks) * (yDomainMax - yDomainMin));
+    const paths = lines.map(line => ({
+      ...line,
+      path: points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${xScale(point.priceA)} ${yScale(line.value(point))}`).join(' '),
+    }));
+    return { xMin, xMax, xScale, yScale, xTicks, yTicks, paths };
+  }, [curve, lines]);
+
+  const handleMouseMove = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
+    if (!scales || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const price = scales.xMin + ((svgX - PADDING.left) / (WIDTH - PADDING.left - PADDING.right)) * (scales.xMax - scales.xMin);
+    setHovered(curve.points.reduce((prev, curr) => Math.abs(curr.priceA - price) < Math.abs(prev.priceA - price) ? curr : prev));
+  }, [scales, curve]);
+
+  if (!scales) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-slate-500">
+        <p>Not enough data to display chart.</p>
+      </div>
+    );
+  }
+
+  const markers = [
+    ...(curve.lowerPriceA !== null ? [{ price: curve.lowerPriceA, label: 'Lower', color: '#94a3b8' }] : []),
+    ...(curve.upperPriceA !== null ? [{ price: curve.upperPriceA, label: 'Upper', color: '#94a3b8' }] : []),
+    ...curve.breakEvenPrices.map(price => ({ price, label: 'Break-even', color: '#fbbf24' })),
+    { price: curve.currentPriceA, label: 'Current', color: '#f8fafc' },
+  ].filter(marker => marker.price >= scales.xMin && marker.price <= scales.xMax);
+
+  const hoveredX = hovered ? scales.xScale(hovered.priceA) : 0;
+
+  return (
+    <div className="w-full h-full relative font-sans">
+      <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} onMouseMove={handleMouseMove} onMouseLeave={() => setHovered(null)} className="w-full h-full">
+        <g className="grid-lines">
+          {scales.yTicks.map(value => (
+            <line key={value} x1={PADDING.left} y1={scales.yScale(value)} x2={WIDTH - PADDING.right} y2={scales.yScale(value)} stroke="#334155" strokeWidth="1" />
+          ))}
+        </g>
+        <g className="axes-labels">
+          {scales.yTicks.map(value => (
+            <text key={value} x={PADDING.left - 8} y={scales.yScale(value) + 4} textAnchor="end" fill="#94a3b8" fontSize="12">{formatAxis(value)}</text>
+          ))}
+          {scales.xTicks.map(value => (
+            <text key={value} x={scales.xScale(value)} y={HEIGHT - PADDING.bottom + 16} textAnchor="middle" fill="#94a3b8" fontSize="12">{formatAxis(value)}</text>
+          ))}
+          <text x={(PADDING.left + WIDTH - PADDING.right) / 2} y={HEIGHT - 8} textAnchor="middle" fill="#64748b" fontSize="12">{`${tokenA} end price`}</text>
+        </g>
+        <line x1={PADDING.left} y1={scales.yScale(curve.initialInvestment)} x2={WIDTH - PADDING.right} y2={scales.yScale(curve.initialInvestment)} stroke="#475569" strokeWidth="1" strokeDasharray="2 4" />
+        {markers.map(marker => {
+          const x = scales.xScale(marker.price);
+          return (
+            <g key={`${marker.label}-${marker.price}`}>
+              <line x1={x} y1={PADDING.top} x2={x} y2={HEIGHT - PADDING.bottom} stroke={marker.color} strokeWidth="1" strokeDasharray="6 4" />
+              <text x={x} y={PADDING.top - 6} textAnchor={x > WIDTH / 2 ? 'end' : 'start'} fill={marker.color} fontSize="11" fontWeight="600">{marker.label}</text>
+            </g>
+          );
+        })}
+        {scales.paths.map(line => (
+          <path key={line.label} d={line.path} fill="none" stroke={line.color} strokeWidth={line.dashed ? 2 : 2.5} strokeDasharray={line.dashed ? '4 4' : undefined} />
+        ))}
+        {hovered && (
+          <g className="tooltip">
+            <line x1={hoveredX} y1={PADDING.top} x2={hoveredX} y2={HEIGHT - PADDING.bottom} stroke="#64748b" strokeWidth="1" />
+            {lines.map(line => (
+              <circle key={line.label} cx={hoveredX} cy={scales.yScale(line.value(hovered))} r="4" fill={line.color} stroke="#0f172a" strokeWidth="2" />
+            ))}
+          </g>
+        )}
+      </svg>
+      {hovered && (
+        <div
+          className="absolute top-2 bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-lg p-3 text-sm text-slate-200 pointer-events-none"
+          style={{
+            left: `${(hoveredX / WIDTH) * 100}%`,
+            transform: hoveredX > WIDTH / 2 ? 'translateX(calc(-100% - 12px))' : 'translateX(12px)'
+          }}
+        >
+          <div className="font-bold mb-2">{tokenA} at {formatCurrency(hovered.priceA)}</div>
+          <div className="flex items-center justify-between space-x-4"><span className="text-slate-400">LP Value:</span><span className="font-mono">{formatCurrency(hovered.lpValue)}</span></div>
+          <div className="flex items-center justify-between space-x-4"><span className="text-slate-400">Fees &amp; Costs:</span><span className="font-mono text-green-400">{formatCurrency(hovered.lpWithFees - hovered.lpValue)}</span></div>
+          {showHedge && (
+            <div className="flex items-center justify-between space-x-4"><span className="text-slate-400">Hedge:</span><span className={`font-mono ${hovered.hedgePnl < 0 ? 'text-red-400' : 'text-green-400'}`}>{formatCurrency(hovered.hedgePnl)}</span></div>
+          )}
+          <div className="flex items-center justify-between space-x-4"><span className="text-slate-400">Total:</span><span className="font-mono text-cyan-400">{formatCurrency(showHedge ? hovered.total : hovered.lpWithFees)}</span></div>
+          <div className="border-t border-slate-700 my-1.5"></div>
+          <div className="flex items-center justify-between space-x-4"><span className="text-slate-400">HODL:</span><span className="font-mono">{formatCurrency(hovered.holdValue)}</span></div>
+          <div className="flex items-center justify-between space-x-4">
+            <span className="text-slate-400">P&amp;L:</span>
+            <span className={`font-mono ${(showHedge ? hovered.total : hovered.lpWithFees) >= curve.initialInvestment ? 'text-green-400' : 'text-red-400'}`}>
+              {formatCurrency((showHedge ? hovered.total : hovered.lpWithFees) - curve.initialInvestment)}
+            </span>
+          </div>
+        </div>
+      )}
+      <div className="absolute bottom-0 right-2 flex flex-wrap justify-end items-center gap-x-4 text-xs text-slate-400 p-2">
+        {lines.map(line => (
+          <div key={line.label} className="flex items-center">
+            <div className="w-3 h-0.5 mr-2" style={{ backgroundColor: line.color }}></div>
+            <span>{line.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PayoffChart;
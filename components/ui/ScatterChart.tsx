@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+
+export interface ScatterPoint {
+  id: string;
+  x: number;
+  y: number;
+  color?: string;
+  highlighted?: boolean;
+  dimmed?: boolean;
+  tooltip?: React.ReactNode;
+}
+
+interface ScatterChartProps {
+  points: ScatterPoint[];
+  xLabel: string;
+  yLabel: string;
+  formatX?: (value: number) => string;
+  formatY?: (value: number) => string;
+  onPointClick?: (id: string) => void;
+}
+
+const PADDING = { top: 20, right: 20, bottom: 48, left: 70 };
+const WIDTH = 800;
+const HEIGHT = 400;
+
+const ScatterChart: React.FC<ScatterChartProps> = ({ points, xLabel, yLabel, formatX = v => v.toFixed(1), formatY = v => v.toFixed(1), onPointClick }) => {
+  const [hovered, setHovered] = useState<ScatterPoint | null>(null);
+
+  const scales = useMemo(() => {
+    if (points.length === 0) return null;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const pad = (min: number, max: number) => {
+      const padding = (max - min) * 0.05 || Math.max(Math.abs(max) * 0.05, 1);
+      return [min - padding, max + padding];
+    };
+    const [xMin, xMax] = pad(Math.min(...xs), Math.max(...xs));
+    const [yMin, yMax] = pad(Math.min(...ys), Math.max(...ys));
+
+    const xScale = (value: number) => PADDING.left + ((value - xMin) / (xMax - xMin)) * (WIDTH - PADDING.left - PADDING.right);
+    const yScale = (value: number) => HEIGHT - PADDING.bottom - ((value - yMin) / (yMax - yMin)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+    const numTicks = 5;
+    const xTicks = Array.from({ length: numTicks + 1 }, (_, i) => xMin + (i / numTicks) * (xMax - xMin));
+    const yTicks = Array.from({ length: numTicks + 1 }, (_, i) => yMin + (i / numTicks) * (yMax - yMin));
+    return { xScale, yScale, xTicks, yTicks };
+  }, [points]);
+
+  if (!scales) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-slate-500">
+        <p>Not enough data to display chart.</p>
+      </div>
+    );
+  }
+
+  // Draw highlighted points last so they sit on top.
+  const ordered = [...points].sort((a, b) => Number(!!a.highlighted) - Number(!!b.highlighted));
+
+  return (
+    <div className="w-full h-full relative font-sans">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full">
+        <g className="grid-lines">
+          {scales.yTicks.map(value => (
+            <line key={value} x1={PADDING.left} y1={scales.yScale(value)} x2={WIDTH - PADDING.right} y2={scales.yScale(value)} stroke="#334155" strokeWidth="1" />
+          ))}
+        </g>
+        <g className="axes-labels">
+          {scales.yTicks.map(value => (
+            <text key={value} x={PADDING.left - 8} y={scales.yScale(value) + 4} textAnchor="end" fill="#94a3b8" fontSize="12">{formatY(value)}</text>
+          ))}
+          {scales.xTicks.map(value => (
+            <text key={value} x={scales.xScale(value)} y={HEIGHT - PADDING.bottom + 16} textAnchor="middle" fill="#94a3b8" fontSize="12">{formatX(value)}</text>
+          ))}
+          <text x={(PADDING.left + WIDTH - PADDING.right) / 2} y={HEIGHT - 8} textAnchor="middle" fill="#64748b" fontSize="12">{xLabel}</text>
+          <text x={14} y={(PADDING.top + HEIGHT - PADDING.bottom) / 2} textAnchor="middle" fill="#64748b" fontSize="12" transform={`rotate(-90 14 ${(PADDING.top + HEIGHT - PADDING.bottom) / 2})`}>{yLabel}</text>
+        </g>
+        {ordered.map(point => (
+          <circle
+            key={point.id}
+            cx={scales.xScale(point.x)}
+            cy={scales.yScale(point.y)}
+            r={point.highlighted ? 8 : 5}
+            fill={point.color ?? '#22d3ee'}
+            fillOpacity={point.dimmed ? 0.25 : 0.85}
+            stroke={point.highlighted ? '#f8fafc' : '#0f172a'}
+            strokeWidth="2"
+            className={onPointClick ? 'cursor-pointer' : ''}
+            onMouseEnter={() => setHovered(point)}
+            onMouseLeave={() => setHovered(null)}
+            onClick={() => onPointClick?.(point.id)}
+          />
+        ))}
+      </svg>
+      {hovered?.tooltip && (
+        <div
+          className="absolute bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-lg p-3 text-sm text-slate-200 pointer-events-none"
+          style={{
+            left: `${(scales.xScale(hovered.x) / WIDTH) * 100}%`,
+            top: `${(scales.yScale(hovered.y) / HEIGHT) * 100}%`,
+            transform: `translate(${scales.xScale(hovered.x) > WIDTH / 2 ? 'calc(-100% - 12px)' : '12px'}, -50%)`
+          }}
+        >
+          {hovered.tooltip}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScatterChart;
@@ -0,0 +1,31 @@
+import React, { forwardRef } from 'react';
+
+interface SelectProps extends React.SelectHTMLAttributes<HTMLSelectElement> {
+  label: string;
+  hideLabel?: boolean;
+  children: React.ReactNode;
+}
+
+const Select = forwardRef<HTMLSelectElement, SelectProps>(({ label, id, className = '', hideLabel, children, ...props }, ref) => {
+  const selectId = id || label.replace(/\s+/g, '-').toLowerCase();
+
+  return (
+    <div className="flex flex-col w-full">
+      <label htmlFor={selectId} className={`mb-1.5 text-sm font-medium text-slate-400 ${hideLabel ? 'sr-only' : ''}`}>
+        {label}
+      </label>
+      <select
+        ref={ref}
+        id={selectId}
+        className={`bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-colors w-full h-[42px] ${className}`}
+        {...props}
+      >
+        {children}
+      </select>
+    </div>
+  );
+});
+
+Select.displayName = 'Select';
+
+export default Select;
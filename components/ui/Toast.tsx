@@ -0,0 +1,34 @@
+import React, { useEffect } from 'react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number; // ms until the toast hides itself
+}
+
+const Toast: React.FC<ToastProps> = ({ message, actionLabel, onAction, onDismiss, duration = 6000 }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, duration);
+    return () => window.clearTimeout(timer);
+  }, [duration, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 animate-fade-in" role="status" aria-live="polite">
+      <div className="flex items-center gap-4 px-4 py-3 rounded-lg border border-slate-700 bg-slate-900/95 backdrop-blur-sm shadow-2xl text-sm text-slate-200">
+        <span>{message}</span>
+        {actionLabel && onAction && (
+          <button type="button" onClick={onAction} className="font-semibold text-cyan-400 hover:text-cyan-300 focus:outline-none focus-visible:underline">
+            {actionLabel}
+          </button>
+        )}
+        <button type="button" onClick={onDismiss} className="text-slate-500 hover:text-slate-300" aria-label="Dismiss">
+          ×
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Toast;
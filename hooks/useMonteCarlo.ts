@@ -0,0 +1,14 @@
+import { useCallback } from 'react';
+import { type Simulation } from '../types';
+import { type MonteCarloOptions } from '../services/monteCarlo';
+import { useWorkerJob } from './useWorkerJob';
+
+export function useMonteCarlo() {
+  const { result: summary, isRunning, error, run: runJob } = useWorkerJob<'monteCarlo'>();
+
+  const run = useCallback((simulation: Simulation, options: MonteCarloOptions) => {
+    runJob({ kind: 'monteCarlo', simulation, options });
+  }, [runJob]);
+
+  return { summary, isRunning, error, run };
+}
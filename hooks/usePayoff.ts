@@ -0,0 +1,13 @@
+import { useCallback } from 'react';
+import { type Simulation } from '../types';
+import { useWorkerJob } from './useWorkerJob';
+
+export function usePayoff() {
+  const { result: curve, isRunning, error, run: runJob } = useWorkerJob<'payoff'>();
+
+  const run = useCallback((simulation: Simulation) => {
+    runJob({ kind: 'payoff', simulation });
+  }, [runJob]);
+
+  return { curve, isRunning, error, run };
+}
@@ -0,0 +1,63 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { type Simulation } from '../types';
+import {
+  type QuarantinedRecord,
+  SIMULATIONS_KEY,
+  QUARANTINE_KEY,
+  loadSimulations,
+  saveSimulations,
+  readQuarantine,
+  acknowledgeQuarantine,
+  clearQuarantine,
+} from '../services/storage';
+
+// Like useLocalStorage, but stored simulations go through the versioned storage layer so they
+// are migrated and validated on load. Quarantined entries are exposed for a recovery notice.
+export function usePersistedSimulations() {
+  const [simulations, setStoredSimulations] = useState<Simulation[]>(() => {
+    if (typeof window === 'undefined') return [];
+    return loadSimulations().simulations;
+  });
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>(() => {
+    if (typeof window === 'undefined') return [];
+    return readQuarantine();
+  });
+
+  const setSimulations: React.Dispatch<React.SetStateAction<Simulation[]>> = useCallback((value) => {
+    setStoredSimulations(prev => {
+      const next = value instanceof Function ? value(prev) : value;
+      try {
+        saveSimulations(next);
+      } catch (error) {
+        console.error(error);
+      }
+      return next;
+    });
+  }, []);
+
+  const dismissQuarantine = useCallback(() => {
+    setQuarantine(acknowledgeQuarantine());
+  }, []);
+
+  const discardQuarantine = useCallback(() => {
+    clearQuarantine();
+    setQuarantine([]);
+  }, []);
+
+  useEffect(() => {
+    // Keep other open tabs in sync.
+    const handleStorageChange = (event: StorageEvent) => {
+      if (event.key === SIMULATIONS_KEY) {
+        setStoredSimulations(loadSimulations().simulations);
+        setQuarantine(readQuarantine());
+      } else if (event.key === QUARANTINE_KEY) {
+        setQuarantine(readQuarantine());
+      }
+    };
+
+    window.addEventListener('storage', handleStorageChange);
+    return () => window.removeEventListener('storage', handleStorageChange);
+  }, []);
+
+  return { simulations, setSimulations, quarantine, dismissQuarantine, discardQuarantine };
+}
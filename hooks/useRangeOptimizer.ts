@@ -0,0 +1,14 @@
+import { useCallback } from 'react';
+import { type Simulation } from '../types';
+import { type OptimizerOptions } from '../services/rangeOptimizer';
+import { useWorkerJob } from './useWorkerJob';
+
+export function useRangeOptimizer() {
+  const { result, isRunning, error, run: runJob } = useWorkerJob<'optimizeRange'>();
+
+  const run = useCallback((simulation: Simulation, options: OptimizerOptions) => {
+    runJob({ kind: 'optimizeRange', simulation, options });
+  }, [runJob]);
+
+  return { result, isRunning, error, run };
+}
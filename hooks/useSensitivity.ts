@@ -0,0 +1,14 @@
+import { useCallback } from 'react';
+import { type Simulation } from '../types';
+import { type SensitivityOptions } from '../services/sensitivity';
+import { useWorkerJob } from './useWorkerJob';
+
+export function useSensitivity() {
+  const { result: grid, isRunning, error, run: runJob } = useWorkerJob<'sensitivity'>();
+
+  const run = useCallback((simulation: Simulation, options: SensitivityOptions) => {
+    runJob({ kind: 'sensitivity', simulation, options });
+  }, [runJob]);
+
+  return { grid, isRunning, error, run };
+}
@@ -0,0 +1,106 @@
+import React, { useRef, useCallback } from 'react';
+import { type Simulation } from '../types';
+import { getCardValuesKey } from '../services/storage';
+
+// Edits with the same coalesce key less than this far apart become a single undo step.
+const COALESCE_MS = 1000;
+const MAX_HISTORY = 100;
+
+export interface HistoryEntry {
+  label: string;
+  simulations: Simulation[];
+  // Raw stored input text of each card, so undo also restores what the inputs showed.
+  cardValues: Record<string, string | null>;
+  coalesceKey?: string;
+  time: number;
+}
+
+const readCardValues = (simulations: Simulation[]): Record<string, string | null> =>
+  Object.fromEntries(simulations.map(sim => [sim.id, window.localStorage.getItem(getCardValuesKey(sim.id))]));
+
+// Writes back the cards' stored inputs. Mounted cards only read storage on mount, so they are
+// told through the same storage event another tab would fire; an empty object makes a card
+// fall back to its simulation's values.
+const restoreCardValues = (cardValues: Record<string, string | null>, current: Simulation[]) => {
+  current.filter(sim => !(sim.id in cardValues)).forEach(sim => window.localStorage.removeItem(getCardValuesKey(sim.id)));
+  Object.entries(cardValues).forEach(([id, raw]) => {
+    const key = getCardValuesKey(id);
+    if (window.localStorage.getItem(key) === raw) return;
+    if (raw === null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, raw);
+    }
+    window.dispatchEvent(new StorageEvent('storage', { key, newValue: raw ?? '{}' }));
+  });
+};
+
+// Undo/redo over the simulation list. Every change goes through `commit`, which records the
+// list and the cards' input text as they were before the change and returns that entry.
+export function useSimulationHistory(
+  simulations: Simulation[],
+  setSimulations: React.Dispatch<React.SetStateAction<Simulation[]>>
+) {
+  const simulationsRef = useRef(simulations);
+  simulationsRef.current = simulations;
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+
+  const apply = useCallback((next: Simulation[]) => {
+    simulationsRef.current = next;
+    setSimulations(next);
+  }, [setSimulations]);
+
+  const commit = useCallback((label: string, value: React.SetStateAction<Simulation[]>, coalesceKey?: string): HistoryEntry => {
+    const current = simulationsRef.current;
+    const next = value instanceof Function ? value(current) : value;
+    const last = pastRef.current[pastRef.current.length - 1];
+    const now = Date.now();
+    let entry: HistoryEntry;
+    if (coalesceKey && last?.coalesceKey === coalesceKey && futureRef.current.length === 0 && now - last.time < COALESCE_MS) {
+      last.time = now;
+      entry = last;
+    } else {
+      entry = { label, simulations: current, cardValues: readCardValues(current), coalesceKey, time: now };
+      pastRef.current = [...pastRef.current.slice(-(MAX_HISTORY - 1)), entry];
+    }
+    futureRef.current = [];
+    apply(next);
+    return entry;
+  }, [apply]);
+
+  // Applies a change that is not an edit, such as a fetched price, without recording a step.
+  // It is also applied to every recorded list so undo and redo neither revert nor lose it; the
+  // cards it touches rebuild their inputs from the simulation when a step is restored.
+  const amend = useCallback((ids: string[], change: (sim: Simulation) => Simulation) => {
+    const patch = (list: Simulation[]) => list.map(sim => ids.includes(sim.id) ? change(sim) : sim);
+    // Entries are patched in place so callers holding one from `commit` can still undo it.
+    [...pastRef.current, ...futureRef.current].forEach(entry => {
+      entry.simulations = patch(entry.simulations);
+      ids.filter(id => id in entry.cardValues).forEach(id => { entry.cardValues[id] = null; });
+    });
+    apply(patch(simulationsRef.current));
+  }, [apply]);
+
+  // Steps back (or forward) and returns the label of the step, or null when there is none.
+  const travel = useCallback((from: React.MutableRefObject<HistoryEntry[]>, to: React.MutableRefObject<HistoryEntry[]>): string | null => {
+    const entry = from.current[from.current.length - 1];
+    if (!entry) return null;
+    const current = simulationsRef.current;
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, { label: entry.label, simulations: current, cardValues: readCardValues(current), time: Date.now() }];
+    restoreCardValues(entry.cardValues, current);
+    apply(entry.simulations);
+    return entry.label;
+  }, [apply]);
+
+  // Given an entry from `commit`, only that change is undone: nothing happens once a later
+  // change has been recorded on top of it or it has already been undone.
+  const undo = useCallback((entry?: HistoryEntry) => {
+    if (entry && pastRef.current[pastRef.current.length - 1] !== entry) return null;
+    return travel(pastRef, futureRef);
+  }, [travel]);
+  const redo = useCallback(() => travel(futureRef, pastRef), [travel]);
+
+  return { commit, amend, undo, redo };
+}
@@ -0,0 +1,24 @@
+import { useMemo, useCallback } from 'react';
+import { type Simulation, type SimulationTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, TEMPLATES_KEY, createTemplate, parseUserTemplates } from '../services/templates';
+import { useLocalStorage } from './useLocalStorage';
+
+// Built-in templates followed by the ones the user saved in this browser.
+export function useTemplates() {
+  const [stored, setStored] = useLocalStorage<unknown>(TEMPLATES_KEY, []);
+  const userTemplates = useMemo(() => parseUserTemplates(stored), [stored]);
+
+  const saveTemplate = useCallback((sim: Simulation, name: string): SimulationTemplate => {
+    const template = createTemplate(sim, name);
+    setStored([...userTemplates, template]);
+    return template;
+  }, [userTemplates, setStored]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    setStored(userTemplates.filter(template => template.id !== id));
+  }, [userTemplates, setStored]);
+
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...userTemplates], [userTemplates]);
+
+  return { templates, saveTemplate, deleteTemplate };
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { type TokenInfo } from '../types';
+import { listTokens, subscribeTokens } from '../services/tokens';
+
+// The token registry, re-rendering whenever it is saved.
+export function useTokens(): TokenInfo[] {
+  return useSyncExternalStore(subscribeTokens, listTokens);
+}
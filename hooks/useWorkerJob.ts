@@ -0,0 +1,48 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { type WorkerJob, type WorkerJobResults, type WorkerRequest, type WorkerResponse } from '../services/simulation.worker';
+
+// Runs jobs of one kind on a dedicated simulation worker. Only the latest request is allowed
+// to update state, so re-running before a job finishes simply supersedes it.
+export function useWorkerJob<K extends WorkerJob['kind']>() {
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const [result, setResult] = useState<WorkerJobResults[K] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const run = useCallback((job: Extract<WorkerJob, { kind: K }>) => {
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../services/simulation.worker.ts', import.meta.url), { type: 'module' });
+    }
+    const worker = workerRef.current;
+    const id = ++requestIdRef.current;
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.id !== requestIdRef.current) return;
+      if ('error' in event.data) {
+        setError(event.data.error);
+      } else {
+        setResult(event.data.result as WorkerJobResults[K]);
+      }
+      setIsRunning(false);
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      setError(event.message || 'Simulation worker failed.');
+      setIsRunning(false);
+    };
+
+    setIsRunning(true);
+    setError(null);
+    const request: WorkerRequest = { id, job };
+    worker.postMessage(request);
+  }, []);
+
+  return { result, isRunning, error, run };
+}
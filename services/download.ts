@@ -0,0 +1,63 @@
+// Triggers a browser download of `blob` under `fileName`.
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Triggers a browser download of `data` serialized as pretty-printed JSON.
+export const downloadJson = (data: unknown, fileName: string): void => {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), fileName);
+};
+
+const serializeSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const downloadSvg = (svg: SVGSVGElement, fileName: string): void => {
+  downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }), fileName);
+};
+
+// Rasterizes the SVG at its viewBox size times `scale`, on the app's dark background.
+export const downloadSvgAsPng = (svg: SVGSVGElement, fileName: string, background = '#0f172a', scale = 2): Promise<void> => {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }));
+  return new Promise<void>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available.'));
+        return;
+      }
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (blob) {
+          downloadBlob(blob, fileName);
+          resolve();
+        } else {
+          reject(new Error('Could not render the chart as PNG.'));
+        }
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the chart as PNG.'));
+    };
+    image.src = url;
+  });
+};
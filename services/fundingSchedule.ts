@@ -0,0 +1,80 @@
+import { type Simulation, type FundingRatePoint } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORTED_ERRORS = 20;
+
+export interface FundingScheduleParseResult {
+  schedule: FundingRatePoint[];
+  errors: string[];
+}
+
+// Cells are separated by commas, semicolons or tabs; spaces stay inside a cell so a timestamp
+// such as "2024-01-01 08:00" is read whole.
+const splitRow = (line: string): string[] =>
+  line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '').trim()).filter(cell => cell !== '');
+
+// A header such as "date,rate" holds only text; a data row with a bad value still has a number
+// or a date somewhere and is reported instead of being skipped.
+const isHeaderRow = (row: string[]): boolean =>
+  row.every(cell => /[a-z]/i.test(cell) && isNaN(Number(cell)) && isNaN(new Date(cell).getTime()));
+
+// Rows are "day, rate" or "YYYY-MM-DD, rate" with the rate in %/day. Dates are turned into days
+// since the simulation's start date, so a per-day export from an exchange can be imported as is.
+export const parseFundingSchedule = (text: string, startDate: string): FundingScheduleParseResult => {
+  const rows = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '').map(splitRow);
+  if (rows.length > 0 && isHeaderRow(rows[0])) rows.shift();
+
+  const start = new Date(startDate).getTime();
+  const errors: string[] = [];
+  const schedule: FundingRatePoint[] = [];
+  rows.forEach((row, index) => {
+    const rowLabel = `Row ${index + 1}`;
+    const [rawDay = '', rawRate = ''] = row;
+    let day: number;
+    if (/^-?\d+(\.\d+)?$/.test(rawDay)) {
+      day = Number(rawDay);
+    } else {
+      const timestamp = new Date(rawDay).getTime();
+      if (isNaN(timestamp)) {
+        errors.push(`${rowLabel}: invalid day or date "${rawDay}".`);
+        return;
+      }
+      if (isNaN(start)) {
+        errors.push(`${rowLabel}: dates need a valid start date on the simulation.`);
+        return;
+      }
+      day = Math.round((timestamp - start) / DAY_MS);
+    }
+    const rate = Number(rawRate);
+    if (rawRate === '' || !isFinite(rate)) {
+      errors.push(`${rowLabel}: rate must be a number, got "${rawRate}".`);
+      return;
+    }
+    const prev = schedule[schedule.length - 1];
+    if (prev && day <= prev.day) {
+      errors.push(`${rowLabel}: day ${day} is not after the previous row.`);
+      return;
+    }
+    schedule.push({ day, rate });
+  });
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const hidden = errors.length - MAX_REPORTED_ERRORS;
+    return { schedule: [], errors: [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${hidden} more errors.`] };
+  }
+  return { schedule: errors.length > 0 ? [] : schedule, errors };
+};
+
+export const formatFundingSchedule = (schedule: FundingRatePoint[] = []): string =>
+  schedule.map(point => `${point.day}, ${point.rate}`).join('\n');
+
+// Funding rate (%/day) in effect on `day`: the latest scheduled rate at or before that day,
+// or the simulation's constant rate before the schedule starts or when there is none.
+export const getFundingRate = (sim: Simulation, day: number): number => {
+  let rate = sim.fundingRate;
+  for (const point of sim.fundingSchedule ?? []) {
+    if (point.day > day) break;
+    rate = point.rate;
+  }
+  return rate;
+};
@@ -1,6 +1,7 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { type Simulation } from '../types';
+import { type Simulation, type PriceProvider, type PriceQuote } from '../types';
+import { randomWalkStep } from './random';
+import { getPeggedSides } from './tokens';
 
 const API_KEY = process.env.API_KEY;
 
@@ -16,22 +17,25 @@ if (!API_KEY) {
   }
 }
 
-export const fetchMockTokenPrices = async (simulation: Simulation): Promise<{ priceA: number; priceB: number }> => {
+export const fetchMockTokenPrices = async (simulation: Simulation): Promise<PriceQuote> => {
+  const pegged = getPeggedSides(simulation);
+
   // If no API client, fallback to a simple randomized price generator
   if (!ai) {
-    const priceA = simulation.latestPriceA * (1 + (Math.random() - 0.5) * 0.1); // +/- ~5% change
-    const priceB = simulation.latestPriceB * (1 + (Math.random() - 0.5) * 0.02); // +/- ~1% change for stablecoin
-    return { priceA: parseFloat(priceA.toFixed(2)), priceB: parseFloat(priceB.toFixed(4)) };
+    return randomWalkStep(simulation, Math.random, pegged);
   }
 
+  const describeToken = (symbol: string, price: number, isPegged: boolean) =>
+    `${symbol} at $${price}${isPegged ? ' (pegged: its price should remain very close to the current one)' : ''}`;
+
   const prompt = `
     You are a financial market simulator for a crypto trading application.
     Given the following token pair and their current prices, generate a plausible new set of prices that would reflect a few hours of market activity.
-    Token A: ${simulation.tokenA} at $${simulation.latestPriceA}
-    Token B: ${simulation.tokenB} at $${simulation.latestPriceB}
-    
-    Consider that ${simulation.tokenA} is likely more volatile than ${simulation.tokenB}. If Token B looks like a stablecoin (e.g., USDC, USDT), its price should remain very close to $1.00.
-    
+    Token A: ${describeToken(simulation.tokenA, simulation.latestPriceA, pegged.a)}
+    Token B: ${describeToken(simulation.tokenB, simulation.latestPriceB, pegged.b)}
+
+    Tokens that are not pegged should move with typical crypto market volatility.
+
     Provide only the JSON object in your response.
   `;
 
@@ -68,8 +72,13 @@ export const fetchMockTokenPrices = async (simulation: Simulation): Promise<{ pr
   } catch (error) {
     console.error("Error fetching prices from Gemini API:", error);
     // Fallback to randomizer on API error
-    const priceA = simulation.latestPriceA * (1 + (Math.random() - 0.5) * 0.1);
-    const priceB = simulation.latestPriceB * (1 + (Math.random() - 0.5) * 0.02);
-    return { priceA: parseFloat(priceA.toFixed(2)), priceB: parseFloat(priceB.toFixed(4)) };
+    return randomWalkStep(simulation, Math.random, pegged);
   }
 };
+
+export const geminiPriceProvider: PriceProvider = {
+  id: 'gemini',
+  name: 'AI (Gemini Mock)',
+  description: 'Asks Gemini for plausible prices, falling back to a local randomizer.',
+  fetchPrices: fetchMockTokenPrices,
+};
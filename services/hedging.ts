@@ -0,0 +1,135 @@
+import { type Simulation } from '../types';
+import { type LpPosition, positionAmounts } from './pricingEngine';
+import { getFundingRate } from './fundingSchedule';
+
+// Running state of the perpetual short while a price path is walked.
+export interface HedgeState {
+  shortUnits: number; // units of the short token currently sold
+  collateral: number; // margin posted when the short was opened
+  shortPnl: number; // mark-to-market P&L of the short, accumulated step by step
+  fundingPnl: number;
+  tradingCosts: number; // taker fees paid so far (<= 0)
+  rebalanceCount: number;
+  lastRebalanceDay: number;
+  lastPrice: number; // short token price at the previous step
+  liquidationDay: number | null;
+}
+
+const getShortPrice = (sim: Simulation, priceA: number, priceB: number): number =>
+  sim.shortToken === 'A' ? priceA : priceB;
+
+// Units of the short token held by the LP position (plus idle tokens) at the given prices.
+export const getPositionDelta = (sim: Simulation, position: LpPosition | null, priceA: number, priceB: number): number => {
+  const priceRatio = priceB > 0 ? priceA / priceB : 0;
+  const held = position && priceRatio > 0
+    ? positionAmounts(position, priceRatio)
+    : { amountA: sim.amountA ?? 0, amountB: sim.amountB ?? 0 };
+  return sim.shortToken === 'A' ? held.amountA : held.amountB;
+};
+
+// USD notional of the short when it is opened at the initial prices. A static hedge sells
+// `shortAmount`; a delta-neutral hedge sells what the position holds.
+export const getEntryNotional = (sim: Simulation, position: LpPosition | null): number => {
+  if (sim.hedgeMode !== 'deltaNeutral') return sim.shortAmount;
+  const price = getShortPrice(sim, sim.initialPriceA, sim.initialPriceB);
+  return getPositionDelta(sim, position, sim.initialPriceA, sim.initialPriceB) * price;
+};
+
+export const getHedgeCollateral = (sim: Simulation, position: LpPosition | null): number => {
+  const leverage = sim.hedgeLeverage && sim.hedgeLeverage > 0 ? sim.hedgeLeverage : 1;
+  return getEntryNotional(sim, position) / leverage;
+};
+
+// Collateral plus everything the short has gained or paid so far.
+export const getHedgeEquity = (state: HedgeState): number =>
+  state.collateral + state.shortPnl + state.fundingPnl + state.tradingCosts;
+
+// Equity as a % of the current notional, or null when no short is open.
+export const getMarginRatio = (state: HedgeState): number | null => {
+  const notional = state.shortUnits * state.lastPrice;
+  return notional > 0 ? (getHedgeEquity(state) / notional) * 100 : null;
+};
+
+// Short token price at which the equity would fall to the maintenance margin.
+export const getLiquidationPrice = (sim: Simulation, state: HedgeState): number | null => {
+  if (state.shortUnits <= 0) return null;
+  const maintenance = (sim.hedgeMaintenanceMargin ?? 0) / 100;
+  return (getHedgeEquity(state) + state.shortUnits * state.lastPrice) / (state.shortUnits * (1 + maintenance));
+};
+
+// Taker fee for changing the short by `units` (positive sells more, negative buys back).
+const tradeCost = (sim: Simulation, units: number, price: number): number => {
+  const feePct = units > 0 ? sim.hedgeEntryFee : sim.hedgeExitFee;
+  return -Math.abs(units) * price * ((feePct ?? 0) / 100);
+};
+
+// Fee that closing the short at `price` would cost, so each step is valued as if it were the last.
+export const getCloseCost = (sim: Simulation, state: HedgeState, price: number): number =>
+  tradeCost(sim, -state.shortUnits, price);
+
+// Opens the short at the initial prices, where the LP position is opened too.
+export const openHedge = (sim: Simulation, position: LpPosition | null, day: number): HedgeState => {
+  const price = getShortPrice(sim, sim.initialPriceA, sim.initialPriceB);
+  const shortUnits = sim.isHedgeEnabled && price > 0 ? getEntryNotional(sim, position) / price : 0;
+  return {
+    shortUnits,
+    collateral: shortUnits > 0 ? getHedgeCollateral(sim, position) : 0,
+    shortPnl: 0,
+    fundingPnl: 0,
+    tradingCosts: tradeCost(sim, shortUnits, price),
+    rebalanceCount: 0,
+    lastRebalanceDay: day,
+    lastPrice: price,
+    liquidationDay: null,
+  };
+};
+
+const shouldRebalance = (sim: Simulation, state: HedgeState, targetUnits: number, price: number, lpValue: number, day: number): boolean => {
+  const interval = sim.hedgeRebalanceInterval ?? 0;
+  if (interval > 0 && day - state.lastRebalanceDay >= interval) return true;
+  const threshold = sim.hedgeRebalanceThreshold ?? 0;
+  return threshold > 0 && lpValue > 0 && (Math.abs(targetUnits - state.shortUnits) * price / lpValue) * 100 >= threshold;
+};
+
+// Advances the short to the next step: charges funding for the elapsed days, marks it to the
+// new price, liquidates it once the equity no longer covers the maintenance margin and, for
+// a delta-neutral hedge, resizes it when a rebalance is due. Prices are only checked at each
+// step, so an intraday wick through the liquidation price is not caught.
+export const stepHedge = (
+  sim: Simulation,
+  state: HedgeState,
+  position: LpPosition | null,
+  priceA: number,
+  priceB: number,
+  lpValue: number,
+  day: number,
+  elapsedDays: number
+): HedgeState => {
+  if (!sim.isHedgeEnabled || state.liquidationDay !== null) return state;
+  const price = getShortPrice(sim, priceA, priceB);
+  const next: HedgeState = { ...state, lastPrice: price };
+  next.fundingPnl -= state.shortUnits * state.lastPrice * (getFundingRate(sim, day - elapsedDays) / 100) * elapsedDays;
+  next.shortPnl += state.shortUnits * (state.lastPrice - price);
+
+  const maintenance = state.shortUnits * price * ((sim.hedgeMaintenanceMargin ?? 0) / 100);
+  const equity = getHedgeEquity(next);
+  if (state.shortUnits > 0 && equity <= maintenance) {
+    // Whatever equity is left is forfeited (and a shortfall is absorbed by the venue), so a
+    // liquidated short costs exactly its collateral.
+    next.shortPnl -= equity;
+    next.shortUnits = 0;
+    next.liquidationDay = day;
+    return next;
+  }
+
+  if (sim.hedgeMode === 'deltaNeutral') {
+    const targetUnits = getPositionDelta(sim, position, priceA, priceB);
+    if (shouldRebalance(sim, state, targetUnits, price, lpValue, day)) {
+      next.tradingCosts += tradeCost(sim, targetUnits - state.shortUnits, price);
+      next.shortUnits = targetUnits;
+      next.rebalanceCount += 1;
+      next.lastRebalanceDay = day;
+    }
+  }
+  return next;
+};
@@ -0,0 +1,101 @@
+import { type Simulation } from '../types';
+import { type PricePoint, getStepDays } from './pricePath';
+import { getInitialInvestment, simulatePath } from './simulationEngine';
+import { createRng, nextGaussian } from './random';
+
+export interface MonteCarloOptions {
+  paths: number;
+  seed: number;
+  volatilityA: number; // annualized, in %
+  volatilityB: number;
+  driftA: number; // annualized, in %
+  driftB: number;
+}
+
+export interface MonteCarloSummary {
+  paths: number;
+  meanReturn: number;
+  medianReturn: number;
+  p5Return: number;
+  p95Return: number;
+  probOutOfRange: number;
+  expectedDaysInRange: number;
+  duration: number;
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  paths: 1000,
+  seed: 42,
+  volatilityA: 80,
+  volatilityB: 1,
+  driftA: 0,
+  driftB: 0,
+};
+
+export const getMonteCarloOptions = (sim: Simulation): MonteCarloOptions => ({
+  paths: sim.monteCarloPaths ?? DEFAULT_MONTE_CARLO_OPTIONS.paths,
+  seed: sim.monteCarloSeed ?? DEFAULT_MONTE_CARLO_OPTIONS.seed,
+  volatilityA: sim.volatilityA ?? DEFAULT_MONTE_CARLO_OPTIONS.volatilityA,
+  volatilityB: sim.volatilityB ?? DEFAULT_MONTE_CARLO_OPTIONS.volatilityB,
+  driftA: sim.driftA ?? DEFAULT_MONTE_CARLO_OPTIONS.driftA,
+  driftB: sim.driftB ?? DEFAULT_MONTE_CARLO_OPTIONS.driftB,
+});
+
+// Geometric Brownian motion path for both tokens starting at the simulation's initial prices.
+export const generateGbmPath = (sim: Simulation, options: MonteCarloOptions, rng: () => number): PricePoint[] => {
+  const days = getStepDays(sim.duration);
+  const sigmaA = options.volatilityA / 100;
+  const sigmaB = options.volatilityB / 100;
+  const muA = options.driftA / 100;
+  const muB = options.driftB / 100;
+
+  let priceA = sim.initialPriceA;
+  let priceB = sim.initialPriceB;
+  const path: PricePoint[] = [{ day: 0, priceA, priceB }];
+  for (let i = 1; i < days.length; i++) {
+    const dt = (days[i] - days[i - 1]) / 365;
+    priceA *= Math.exp((muA - sigmaA * sigmaA / 2) * dt + sigmaA * Math.sqrt(dt) * nextGaussian(rng));
+    priceB *= Math.exp((muB - sigmaB * sigmaB / 2) * dt + sigmaB * Math.sqrt(dt) * nextGaussian(rng));
+    path.push({ day: days[i], priceA, priceB });
+  }
+  return path;
+};
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const runMonteCarlo = (sim: Simulation, options: MonteCarloOptions): MonteCarloSummary => {
+  const rng = createRng(options.seed);
+  const initialInvestment = getInitialInvestment(sim);
+  const paths = Math.max(1, Math.floor(options.paths));
+  const returns: number[] = [];
+  let outOfRangeCount = 0;
+  let totalDaysInRange = 0;
+
+  for (let i = 0; i < paths; i++) {
+    const timeline = simulatePath(sim, generateGbmPath(sim, options, rng));
+    const final = timeline[timeline.length - 1];
+    returns.push(final.totalValue - initialInvestment);
+    if (!final.isInRange) outOfRangeCount++;
+    for (let step = 1; step < timeline.length; step++) {
+      if (timeline[step].isInRange) totalDaysInRange += timeline[step].day - timeline[step - 1].day;
+    }
+  }
+
+  returns.sort((a, b) => a - b);
+  return {
+    paths,
+    meanReturn: returns.reduce((sum, r) => sum + r, 0) / paths,
+    medianReturn: percentile(returns, 0.5),
+    p5Return: percentile(returns, 0.05),
+    p95Return: percentile(returns, 0.95),
+    probOutOfRange: outOfRangeCount / paths,
+    expectedDaysInRange: totalDaysInRange / paths,
+    duration: sim.duration,
+  };
+};
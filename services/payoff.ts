@@ -0,0 +1,77 @@
+import { type Simulation } from '../types';
+import { calculateSimulation, getInitialInvestment } from './simulationEngine';
+import { getDeployableRange, hasPriceRange } from './protocols';
+
+// Values at `duration` if token A ends at `priceA` (token B at its projected price).
+export interface PayoffPoint {
+  priceA: number;
+  lpValue: number;
+  holdValue: number;
+  lpWithFees: number; // LP value plus fees, net of transaction costs
+  total: number; // plus the hedge's P&L, funding and trading costs
+  earnedFees: number;
+  hedgePnl: number;
+}
+
+export interface PayoffCurve {
+  points: PayoffPoint[];
+  initialInvestment: number;
+  lowerPriceA: number | null; // range bounds in token A's price, null without a range
+  upperPriceA: number | null;
+  currentPriceA: number;
+  breakEvenPrices: number[]; // end prices at which the total comes back to the initial investment
+}
+
+const SWEEP_POINTS = 61;
+
+// Prices at which `value` crosses `level`, interpolated between neighbouring sweep points.
+const findCrossings = (points: PayoffPoint[], value: (point: PayoffPoint) => number, level: number): number[] => {
+  const crossings: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = value(points[i - 1]) - level;
+    const curr = value(points[i]) - level;
+    if (prev === 0) crossings.push(points[i - 1].priceA);
+    if (prev * curr < 0) {
+      const t = prev / (prev - curr);
+      crossings.push(points[i - 1].priceA + t * (points[i].priceA - points[i - 1].priceA));
+    }
+  }
+  return crossings;
+};
+
+// Sweeps token A's end price over the range and well beyond it, running the full simulation
+// (fees, range strategy, hedge and costs) along a linear path to each end price.
+export const buildPayoffCurve = (sim: Simulation): PayoffCurve => {
+  const priceB = sim.latestPriceB;
+  const range = hasPriceRange(sim) ? getDeployableRange(sim, sim.lowerPriceBound, sim.upperPriceBound) : null;
+  const lowerPriceA = range ? range.lowerPrice * priceB : null;
+  const upperPriceA = range ? range.upperPrice * priceB : null;
+  const low = Math.min(lowerPriceA ?? sim.initialPriceA, sim.initialPriceA, sim.latestPriceA) * 0.6;
+  const high = Math.max(upperPriceA ?? sim.initialPriceA, sim.initialPriceA, sim.latestPriceA) * 1.4;
+
+  const points: PayoffPoint[] = [];
+  for (let i = 0; i < SWEEP_POINTS; i++) {
+    const priceA = low + (i / (SWEEP_POINTS - 1)) * (high - low);
+    const results = calculateSimulation({ ...sim, latestPriceA: priceA, priceSeries: undefined });
+    const lpWithFees = results.initialInvestment + results.lpNetReturn;
+    points.push({
+      priceA,
+      lpValue: results.finalLpValue,
+      holdValue: results.holdValue,
+      lpWithFees,
+      total: results.finalTotalValue,
+      earnedFees: results.earnedFees,
+      hedgePnl: results.finalTotalValue - lpWithFees,
+    });
+  }
+
+  const initialInvestment = getInitialInvestment(sim);
+  return {
+    points,
+    initialInvestment,
+    lowerPriceA,
+    upperPriceA,
+    currentPriceA: sim.latestPriceA,
+    breakEvenPrices: findCrossings(points, point => point.total, initialInvestment),
+  };
+};
@@ -0,0 +1,100 @@
+import { type Simulation } from '../types';
+import { validateSimulation } from './simulationSchema';
+import { STORAGE_SCHEMA_VERSION, migrateSimulationRecord } from './storage';
+import { createSimulationId } from './portfolio';
+
+// Links look like `#sim=<version>.<checksum>.<payload>`, where the payload is the simulation as
+// deflated JSON in base64url, so it survives being pasted into chats and address bars.
+const HASH_PREFIX = '#sim=';
+export const PERMALINK_VERSION = 1;
+// Far beyond any hand-made setup; long imported price series are the only way to get close.
+const MAX_PAYLOAD_LENGTH = 500_000;
+
+export interface PermalinkParseResult {
+  simulation: Simulation | null;
+  errors: string[];
+}
+
+// FNV-1a: catches truncated or hand-edited links before the payload is decoded.
+const checksum = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export const encodePermalinkHash = async (sim: Simulation): Promise<string> => {
+  const json = JSON.stringify({ schemaVersion: STORAGE_SCHEMA_VERSION, simulation: sim });
+  const payload = toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+  return `${HASH_PREFIX}${PERMALINK_VERSION}.${checksum(payload)}.${payload}`;
+};
+
+// The app's current address with the simulation in its hash fragment.
+export const createPermalink = async (sim: Simulation): Promise<string> => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${await encodePermalinkHash(sim)}`;
+};
+
+export const hasPermalinkHash = (hash: string): boolean => hash.startsWith(HASH_PREFIX);
+
+export const parsePermalinkHash = async (hash: string): Promise<PermalinkParseResult> => {
+  const reject = (error: string): PermalinkParseResult => ({ simulation: null, errors: [error] });
+  if (!hasPermalinkHash(hash)) return reject('The link does not contain a shared simulation.');
+
+  const parts = hash.slice(HASH_PREFIX.length).split('.');
+  if (parts.length !== 3) return reject('The link is incomplete or was not made by LP Simulator.');
+  const [versionText, expectedChecksum, payload] = parts;
+  const version = Number(versionText);
+  if (!Number.isInteger(version) || version < 1) return reject('The link has no valid format version.');
+  if (version > PERMALINK_VERSION) {
+    return reject(`The link uses format version ${version}, which is newer than this app supports (${PERMALINK_VERSION}).`);
+  }
+  if (payload.length > MAX_PAYLOAD_LENGTH) return reject('The link is too long to be a shared simulation.');
+  if (checksum(payload) !== expectedChecksum) return reject('The link is damaged or was edited after it was shared.');
+
+  let data: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return reject('The link could not be decoded.');
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return reject('The link does not contain a simulation.');
+  const { schemaVersion, simulation } = data as Record<string, unknown>;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    return reject('schemaVersion: expected a non-negative integer.');
+  }
+  if (schemaVersion > STORAGE_SCHEMA_VERSION) {
+    return reject(`schemaVersion: ${schemaVersion} is newer than this app supports (${STORAGE_SCHEMA_VERSION}).`);
+  }
+
+  const result = validateSimulation(migrateSimulationRecord(simulation, schemaVersion), 'simulation');
+  if (!result.simulation) return { simulation: null, errors: result.errors };
+  // The sender's id means nothing here and could clash with a card of our own.
+  return { simulation: { ...result.simulation, id: createSimulationId() }, errors: [] };
+};
+
+// Drops the shared simulation from the address bar so a reload does not offer it again.
+export const clearPermalinkHash = (): void => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, '', `${pathname}${search}`);
+};
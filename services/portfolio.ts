@@ -0,0 +1,140 @@
+import { type Simulation } from '../types';
+import { validateSimulation } from './simulationSchema';
+import { STORAGE_SCHEMA_VERSION, migrateSimulationRecord } from './storage';
+import { downloadJson } from './download';
+
+export const PORTFOLIO_FORMAT = 'lp-simulator-portfolio';
+export const PORTFOLIO_VERSION = 2;
+
+export interface PortfolioBundle {
+  format: typeof PORTFOLIO_FORMAT;
+  version: number;
+  schemaVersion: number; // storage schema of the records, migrated separately from the envelope
+  exportedAt: string;
+  simulations: Simulation[];
+}
+
+export interface PortfolioParseResult {
+  simulations: Simulation[];
+  errors: string[];
+  sourceVersion: number | null;
+}
+
+export type PortfolioImportMode = 'merge' | 'replace';
+
+// Each migration upgrades a bundle envelope from the version it is keyed by to the next one.
+// Records inside are left alone; they are migrated by their own schema version afterwards.
+const BUNDLE_MIGRATIONS: Record<number, (bundle: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0: a bare array of simulations, as copied straight out of localStorage.
+  0: bundle => ({
+    format: PORTFOLIO_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    simulations: bundle.simulations,
+  }),
+  // Version 1 bundles did not record a schema version and may hold records from before the
+  // storage schema was versioned.
+  1: bundle => ({ ...bundle, version: 2, schemaVersion: 0 }),
+};
+
+export const createPortfolioBundle = (simulations: Simulation[]): PortfolioBundle => ({
+  format: PORTFOLIO_FORMAT,
+  version: PORTFOLIO_VERSION,
+  schemaVersion: STORAGE_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  simulations,
+});
+
+export const parsePortfolioBundle = (text: string): PortfolioParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { simulations: [], errors: ['The file is not valid JSON.'], sourceVersion: null };
+  }
+
+  let bundle: Record<string, unknown>;
+  if (Array.isArray(data)) {
+    bundle = { version: 0, simulations: data };
+  } else if (typeof data === 'object' && data !== null && (data as Record<string, unknown>).format === PORTFOLIO_FORMAT) {
+    bundle = data as Record<string, unknown>;
+  } else {
+    return { simulations: [], errors: ['The file is not an LP Simulator portfolio export.'], sourceVersion: null };
+  }
+
+  const sourceVersion = bundle.version;
+  if (typeof sourceVersion !== 'number' || !Number.isInteger(sourceVersion) || sourceVersion < 0) {
+    return { simulations: [], errors: ['version: expected a non-negative integer.'], sourceVersion: null };
+  }
+  if (sourceVersion > PORTFOLIO_VERSION) {
+    return {
+      simulations: [],
+      errors: [`version: ${sourceVersion} is newer than this app supports (${PORTFOLIO_VERSION}).`],
+      sourceVersion,
+    };
+  }
+
+  for (let version = sourceVersion; version < PORTFOLIO_VERSION; version++) {
+    bundle = BUNDLE_MIGRATIONS[version](bundle);
+  }
+
+  const schemaVersion = bundle.schemaVersion;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    return { simulations: [], errors: ['schemaVersion: expected a non-negative integer.'], sourceVersion };
+  }
+  if (schemaVersion > STORAGE_SCHEMA_VERSION) {
+    return {
+      simulations: [],
+      errors: [`schemaVersion: ${schemaVersion} is newer than this app supports (${STORAGE_SCHEMA_VERSION}).`],
+      sourceVersion,
+    };
+  }
+  if (!Array.isArray(bundle.simulations)) {
+    return { simulations: [], errors: ['simulations: expected an array.'], sourceVersion };
+  }
+
+  const errors: string[] = [];
+  const simulations: Simulation[] = [];
+  bundle.simulations.forEach((item, index) => {
+    const result = validateSimulation(migrateSimulationRecord(item, schemaVersion), `simulations[${index}]`);
+    if (result.simulation) {
+      simulations.push(result.simulation);
+    } else {
+      errors.push(...result.errors);
+    }
+  });
+
+  return errors.length > 0
+    ? { simulations: [], errors, sourceVersion }
+    : { simulations, errors, sourceVersion };
+};
+
+export const createSimulationId = (): string =>
+  `${Date.now()}${Math.random().toString(36).slice(2, 8)}`;
+
+// Deep copy under a fresh id, named so it can be told apart from the original.
+export const cloneSimulation = (sim: Simulation): Simulation => ({
+  ...structuredClone(sim),
+  id: createSimulationId(),
+  protocol: `${sim.protocol} (copy)`,
+});
+
+// Adds imported simulations in front of the existing ones, giving a fresh id to any that
+// would collide with an id already in use.
+export const mergeSimulations = (existing: Simulation[], imported: Simulation[]): Simulation[] => {
+  const usedIds = new Set(existing.map(sim => sim.id));
+  const merged = imported.map(sim => {
+    let id = sim.id;
+    while (usedIds.has(id)) {
+      id = createSimulationId();
+    }
+    usedIds.add(id);
+    return id === sim.id ? sim : { ...sim, id };
+  });
+  return [...merged, ...existing];
+};
+
+export const downloadPortfolio = (simulations: Simulation[]): void => {
+  const bundle = createPortfolioBundle(simulations);
+  downloadJson(bundle, `lp-simulator-portfolio-${bundle.exportedAt.split('T')[0]}.json`);
+};
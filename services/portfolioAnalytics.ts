@@ -0,0 +1,72 @@
+import { type Simulation } from '../types';
+import { calculateSimulation, getTokenExposure } from './simulationEngine';
+
+export interface TokenExposure {
+  symbol: string;
+  units: number; // positive = net long, negative = net short
+  value: number; // USD at the latest prices
+}
+
+export interface PortfolioSummary {
+  simulationCount: number;
+  capitalDeployed: number;
+  currentValue: number;
+  earnedFees: number;
+  impermanentLoss: number;
+  hedgePnl: number;
+  totalNetReturn: number;
+  totalNetReturnPct: number;
+  capitalInRange: number;
+  capitalOutOfRange: number;
+  exposures: TokenExposure[];
+}
+
+// Totals across simulations, computed with the same engine the cards use. Exposure is grouped
+// by token symbol so the same token in several pairs nets out.
+export const summarizePortfolio = (simulations: Simulation[]): PortfolioSummary => {
+  const exposureBySymbol = new Map<string, TokenExposure>();
+  const addExposure = (symbol: string, units: number, price: number) => {
+    const key = symbol.trim().toUpperCase() || '?';
+    const current = exposureBySymbol.get(key) ?? { symbol: key, units: 0, value: 0 };
+    current.units += units;
+    current.value += units * price;
+    exposureBySymbol.set(key, current);
+  };
+
+  const summary: PortfolioSummary = {
+    simulationCount: simulations.length,
+    capitalDeployed: 0,
+    currentValue: 0,
+    earnedFees: 0,
+    impermanentLoss: 0,
+    hedgePnl: 0,
+    totalNetReturn: 0,
+    totalNetReturnPct: 0,
+    capitalInRange: 0,
+    capitalOutOfRange: 0,
+    exposures: [],
+  };
+
+  for (const sim of simulations) {
+    const results = calculateSimulation(sim);
+    summary.capitalDeployed += results.initialInvestment;
+    summary.currentValue += results.finalTotalValue;
+    summary.earnedFees += results.earnedFees;
+    summary.impermanentLoss += results.impermanentLoss;
+    summary.hedgePnl += results.shortPnl + results.fundingPnl + results.hedgeCosts;
+    summary.totalNetReturn += results.totalNetReturn;
+    if (results.isInRange) {
+      summary.capitalInRange += results.finalLpValue;
+    } else {
+      summary.capitalOutOfRange += results.finalLpValue;
+    }
+
+    const exposure = getTokenExposure(sim, results);
+    addExposure(sim.tokenA, exposure.amountA, results.finalPriceA);
+    addExposure(sim.tokenB, exposure.amountB, results.finalPriceB);
+  }
+
+  summary.totalNetReturnPct = summary.capitalDeployed > 0 ? (summary.totalNetReturn / summary.capitalDeployed) * 100 : 0;
+  summary.exposures = Array.from(exposureBySymbol.values()).sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+  return summary;
+};
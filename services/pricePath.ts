@@ -0,0 +1,34 @@
+import { type Simulation } from '../types';
+
+// Price paths the engine walks, kept free of other service imports so the engine and the
+// modules that build paths for it (price series, tracking) do not import each other.
+
+export interface PricePoint {
+  day: number;
+  priceA: number;
+  priceB: number;
+}
+
+// Daily step days from 0 to duration, with a shorter final step for fractional durations.
+export const getStepDays = (duration: number): number[] => {
+  const days: number[] = [];
+  for (let day = 0; day <= duration; day++) days.push(day);
+  if (days[days.length - 1] < duration) days.push(duration);
+  return days;
+};
+
+// Linear daily path from the initial to the latest prices. A zero duration values the
+// position at the latest prices straight away.
+export const getLinearPricePath = (sim: Simulation): PricePoint[] => {
+  const { duration, initialPriceA, initialPriceB, latestPriceA, latestPriceB } = sim;
+  if (duration <= 0) return [{ day: 0, priceA: latestPriceA, priceB: latestPriceB }];
+
+  return getStepDays(duration).map(day => {
+    const progress = day / duration;
+    return {
+      day,
+      priceA: initialPriceA + (latestPriceA - initialPriceA) * progress,
+      priceB: initialPriceB > 0 ? initialPriceB + (latestPriceB - initialPriceB) * progress : 1,
+    };
+  });
+};
@@ -0,0 +1,82 @@
+import { type Simulation, type PriceProvider, type PriceQuote } from '../types';
+import { geminiPriceProvider } from './geminiService';
+import { createRng, hashString, randomWalkStep } from './random';
+import { getPeggedSides } from './tokens';
+
+export const DEFAULT_PRICE_PROVIDER_ID = 'gemini';
+export const HTTP_PRICE_PROVIDER_ID = 'http-json';
+export const DEFAULT_PRICE_URL_TEMPLATE = process.env.PRICE_API_URL || 'http://localhost:8080/prices?tokenA={tokenA}&tokenB={tokenB}';
+
+const registry = new Map<string, PriceProvider>();
+
+export const registerPriceProvider = (provider: PriceProvider): void => {
+  registry.set(provider.id, provider);
+};
+
+export const listPriceProviders = (): PriceProvider[] => Array.from(registry.values());
+
+// Unknown or missing ids resolve to the default provider so older simulations keep working.
+export const getPriceProvider = (id?: string): PriceProvider =>
+  (id && registry.get(id)) || registry.get(DEFAULT_PRICE_PROVIDER_ID)!;
+
+// Each simulation gets its own generator, seeded from its id, so the sequence of updates
+// is the same every time the page is loaded.
+const randomWalkGenerators = new Map<string, () => number>();
+
+export const randomWalkPriceProvider: PriceProvider = {
+  id: 'random-walk',
+  name: 'Seeded Random Walk',
+  description: 'Reproducible small random moves from the latest prices.',
+  fetchPrices: async (simulation: Simulation) => {
+    let rng = randomWalkGenerators.get(simulation.id);
+    if (!rng) {
+      rng = createRng(hashString(simulation.id));
+      randomWalkGenerators.set(simulation.id, rng);
+    }
+    return randomWalkStep(simulation, rng, getPeggedSides(simulation));
+  },
+};
+
+const createScenarioProvider = (id: string, name: string, changeA: number, changeB: number): PriceProvider => ({
+  id,
+  name,
+  description: `Moves ${changeA >= 0 ? '+' : ''}${changeA}% / ${changeB >= 0 ? '+' : ''}${changeB}% from the initial prices.`,
+  fetchPrices: async (simulation: Simulation) => ({
+    priceA: simulation.initialPriceA * (1 + changeA / 100),
+    priceB: simulation.initialPriceB * (1 + changeB / 100),
+  }),
+});
+
+const fillUrlTemplate = (template: string, simulation: Simulation): string =>
+  template
+    .replace(/\{tokenA\}/g, encodeURIComponent(simulation.tokenA))
+    .replace(/\{tokenB\}/g, encodeURIComponent(simulation.tokenB))
+    .replace(/\{id\}/g, encodeURIComponent(simulation.id));
+
+// Fetches `{ "priceA": number, "priceB": number }` from a configurable URL template.
+export const httpJsonPriceProvider: PriceProvider = {
+  id: HTTP_PRICE_PROVIDER_ID,
+  name: 'HTTP JSON',
+  description: 'Fetches prices from a URL template with {tokenA}, {tokenB} and {id} placeholders.',
+  fetchPrices: async (simulation: Simulation): Promise<PriceQuote> => {
+    const url = fillUrlTemplate(simulation.priceProviderUrl || DEFAULT_PRICE_URL_TEMPLATE, simulation);
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Price request failed with status ${response.status}.`);
+    }
+    const body = await response.json();
+    const priceA = Number(body?.priceA);
+    const priceB = Number(body?.priceB);
+    if (!isFinite(priceA) || !isFinite(priceB) || priceA <= 0 || priceB <= 0) {
+      throw new Error('Price response must contain positive numeric "priceA" and "priceB" fields.');
+    }
+    return { priceA, priceB };
+  },
+};
+
+registerPriceProvider(geminiPriceProvider);
+registerPriceProvider(randomWalkPriceProvider);
+registerPriceProvider(createScenarioProvider('scenario-bear', 'Scenario: Bear', -30, 0));
+registerPriceProvider(createScenarioProvider('scenario-flat', 'Scenario: Flat', 0, 0));
+registerPriceProvider(createScenarioProvider('scenario-bull', 'Scenario: Bull', 30, 0));
+registerPriceProvider(httpJsonPriceProvider);
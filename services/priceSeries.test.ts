@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parsePriceSeries } from './priceSeries';
+
+describe('parsePriceSeries', () => {
+  it('reads a CSV with a header row', () => {
+    const { series, errors } = parsePriceSeries('timestamp,priceA,priceB\n2024-01-01,3000,1\n2024-01-02,3100,1\n', 'prices.csv');
+    expect(errors).toEqual([]);
+    expect(series).toEqual([
+      { timestamp: Date.UTC(2024, 0, 1), priceA: 3000, priceB: 1 },
+      { timestamp: Date.UTC(2024, 0, 2), priceA: 3100, priceB: 1 },
+    ]);
+  });
+
+  it('labels errors with the line of the file, counting the header and blank lines', () => {
+    const text = [
+      'timestamp,priceA,priceB',
+      '2024-01-01,3000,1',
+      '',
+      '2024-01-02,abc,1',
+      '2024-01-03,3100,-1',
+    ].join('\n');
+    expect(parsePriceSeries(text, 'prices.csv').errors).toEqual([
+      'Row 4: priceA must be a positive number, got "abc".',
+      'Row 5: priceB must be a positive number, got "-1".',
+    ]);
+  });
+
+  it('numbers JSON rows by their position in the array', () => {
+    const text = JSON.stringify([
+      { timestamp: '2024-01-01', priceA: 3000, priceB: 1 },
+      { timestamp: 'not a date', priceA: 3100, priceB: 1 },
+    ]);
+    expect(parsePriceSeries(text, 'prices.json').errors).toEqual(['Row 2: invalid timestamp "not a date".']);
+  });
+});
@@ -0,0 +1,189 @@
+import { type Simulation, type PriceSeriesPoint } from '../types';
+import { type PricePoint, getStepDays } from './pricePath';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// An interval more than this many times the typical spacing is reported as a gap.
+const GAP_TOLERANCE = 2;
+const MAX_REPORTED_ERRORS = 20;
+
+export interface PriceSeriesParseResult {
+  series: PriceSeriesPoint[];
+  errors: string[];
+}
+
+// Accepts ISO dates, unix seconds or unix milliseconds.
+const parseTimestamp = (raw: unknown): number => {
+  if (typeof raw === 'number') {
+    return raw < 1e12 ? raw * 1000 : raw;
+  }
+  if (typeof raw !== 'string' || raw.trim() === '') return NaN;
+  const trimmed = raw.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseTimestamp(parseFloat(trimmed));
+  }
+  return new Date(trimmed).getTime();
+};
+
+const parsePrice = (raw: unknown): number => {
+  if (typeof raw === 'number') return raw;
+  if (typeof raw !== 'string' || raw.trim() === '') return NaN;
+  return Number(raw.trim());
+};
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toISOString().split('T')[0];
+
+// A row of cells with its number in the file: the line for CSV, the item for JSON.
+interface SourceRow {
+  number: number;
+  cells: unknown[];
+}
+
+const parseCsvRows = (text: string): SourceRow[] => {
+  const rows = text.split(/\r?\n/)
+    .map((line, i) => ({ number: i + 1, line: line.trim() }))
+    .filter(({ line }) => line !== '')
+    .map(({ number, line }) => ({ number, cells: line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')) }));
+  // Skip a header row such as "timestamp,priceA,priceB".
+  if (rows.length > 0 && isNaN(parsePrice(rows[0].cells[1]))) {
+    return rows.slice(1);
+  }
+  return rows;
+};
+
+const parseJsonRows = (text: string): SourceRow[] => {
+  const data = JSON.parse(text);
+  const items = Array.isArray(data) ? data : data?.series;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON must be an array of { timestamp, priceA, priceB } objects or have a "series" array.');
+  }
+  return items.map((item, i) => ({
+    number: i + 1,
+    cells: Array.isArray(item) ? item : [item?.timestamp, item?.priceA, item?.priceB],
+  }));
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Parses and validates a CSV or JSON series of (timestamp, priceA, priceB). Any error
+// rejects the whole series so a backtest never runs on partially-read data.
+export const parsePriceSeries = (text: string, fileName = ''): PriceSeriesParseResult => {
+  const errors: string[] = [];
+  let rows: SourceRow[];
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  try {
+    rows = isJson ? parseJsonRows(text) : parseCsvRows(text);
+  } catch (error) {
+    return { series: [], errors: [`Could not read file: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const series: PriceSeriesPoint[] = [];
+  rows.forEach(({ number, cells: row }) => {
+    const rowLabel = `Row ${number}`;
+    const timestamp = parseTimestamp(row[0]);
+    const priceA = parsePrice(row[1]);
+    const priceB = parsePrice(row[2]);
+    if (isNaN(timestamp)) {
+      errors.push(`${rowLabel}: invalid timestamp "${String(row[0])}".`);
+      return;
+    }
+    if (!isFinite(priceA) || priceA <= 0) {
+      errors.push(`${rowLabel}: priceA must be a positive number, got "${String(row[1])}".`);
+      return;
+    }
+    if (!isFinite(priceB) || priceB <= 0) {
+      errors.push(`${rowLabel}: priceB must be a positive number, got "${String(row[2])}".`);
+      return;
+    }
+    const prev = series[series.length - 1];
+    if (prev && timestamp <= prev.timestamp) {
+      errors.push(`${rowLabel}: timestamp ${new Date(timestamp).toISOString()} is not after the previous row.`);
+      return;
+    }
+    series.push({ timestamp, priceA, priceB });
+  });
+
+  if (rows.length > 0 && series.length < 2 && errors.length === 0) {
+    errors.push('The series needs at least two rows.');
+  } else if (rows.length === 0) {
+    errors.push('The file contains no price rows.');
+  }
+
+  if (errors.length === 0) {
+    const intervals = series.slice(1).map((point, i) => point.timestamp - series[i].timestamp);
+    const typicalInterval = median(intervals);
+    intervals.forEach((interval, i) => {
+      if (interval > typicalInterval * GAP_TOLERANCE) {
+        errors.push(`Gap of ${(interval / DAY_MS).toFixed(1)} days between ${formatDate(series[i].timestamp)} and ${formatDate(series[i + 1].timestamp)}.`);
+      }
+    });
+  }
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const hidden = errors.length - MAX_REPORTED_ERRORS;
+    return { series: [], errors: [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${hidden} more errors.`] };
+  }
+  return { series: errors.length > 0 ? [] : series, errors };
+};
+
+// Linearly interpolated prices at `timestamp`, or null outside the series.
+export const samplePriceSeries = (series: PriceSeriesPoint[], timestamp: number): { priceA: number; priceB: number } | null => {
+  if (series.length === 0 || timestamp < series[0].timestamp || timestamp > series[series.length - 1].timestamp) {
+    return null;
+  }
+  let lo = 0;
+  let hi = series.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].timestamp <= timestamp) lo = mid; else hi = mid;
+  }
+  const a = series[lo];
+  const b = series[hi];
+  const t = b.timestamp === a.timestamp ? 0 : (timestamp - a.timestamp) / (b.timestamp - a.timestamp);
+  return {
+    priceA: a.priceA + (b.priceA - a.priceA) * t,
+    priceB: a.priceB + (b.priceB - a.priceB) * t,
+  };
+};
+
+export const getStartTimestamp = (sim: Simulation): number => new Date(sim.startDate).getTime();
+
+// Daily path over startDate..startDate+duration sampled from the imported series. The path
+// stops at the last covered day and is empty when the series does not cover the start date.
+export const getSeriesPricePath = (sim: Simulation): PricePoint[] => {
+  const series = sim.priceSeries ?? [];
+  const start = getStartTimestamp(sim);
+  if (series.length === 0 || isNaN(start)) return [];
+
+  const path: PricePoint[] = [];
+  for (const day of getStepDays(sim.duration)) {
+    const prices = samplePriceSeries(series, start + day * DAY_MS);
+    if (!prices) break;
+    path.push({ day, ...prices });
+  }
+  return path;
+};
+
+export interface PriceSeriesCoverage {
+  firstDate: string;
+  lastDate: string;
+  coveredDays: number;
+  coversStart: boolean;
+  coversEnd: boolean;
+}
+
+export const getPriceSeriesCoverage = (sim: Simulation): PriceSeriesCoverage | null => {
+  const series = sim.priceSeries ?? [];
+  if (series.length === 0) return null;
+  const path = getSeriesPricePath(sim);
+  return {
+    firstDate: formatDate(series[0].timestamp),
+    lastDate: formatDate(series[series.length - 1].timestamp),
+    coveredDays: path.length > 0 ? path[path.length - 1].day : 0,
+    coversStart: path.length > 0,
+    coversEnd: path.length > 0 && path[path.length - 1].day >= sim.duration,
+  };
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { amountsForLiquidity, liquidityForAmounts, nearestUsableTick, openPosition, priceToTick, snapPriceToTick, tickToPrice } from './pricingEngine';
+
+// Reference position from the Uniswap V3 Development Book ("Providing Liquidity"): 1 ETH and
+// 5000 USDC at 5000 USDC/ETH over 4545..5500. The book's integer math gives, in whole tokens,
+// L(ETH) = 1519.437308014769733632, L(USDC) = 1517.882343751509868544 and a deposit of
+// 0.998976618347425280 ETH with all 5000 USDC.
+const PRICE = 5000;
+const LOWER = 4545;
+const UPPER = 5500;
+const REFERENCE_LIQUIDITY = 1517.882343751509868544;
+const REFERENCE_LIQUIDITY_A = 1519.437308014769733632;
+const REFERENCE_DEPOSIT_A = 0.998976618347425280;
+
+const expectRelativelyClose = (actual: number, expected: number, tolerance = 1e-9) => {
+  expect(Math.abs(actual - expected) / Math.abs(expected)).toBeLessThan(tolerance);
+};
+
+describe('liquidityForAmounts', () => {
+  it('takes the smaller of the two sides for an in-range position', () => {
+    expectRelativelyClose(liquidityForAmounts(PRICE, LOWER, UPPER, 1, 5000), REFERENCE_LIQUIDITY);
+    // With plenty of USDC the ETH side binds instead.
+    expectRelativelyClose(liquidityForAmounts(PRICE, LOWER, UPPER, 1, 1e9), REFERENCE_LIQUIDITY_A);
+  });
+
+  it('uses only token A below the range', () => {
+    const liquidity = liquidityForAmounts(4000, LOWER, UPPER, 1, 5000);
+    expectRelativelyClose(liquidity, 1 / (1 / Math.sqrt(LOWER) - 1 / Math.sqrt(UPPER)));
+    expect(liquidityForAmounts(4000, LOWER, UPPER, 1, 0)).toBe(liquidity);
+  });
+
+  it('uses only token B above the range', () => {
+    const liquidity = liquidityForAmounts(6000, LOWER, UPPER, 1, 5000);
+    expectRelativelyClose(liquidity, 5000 / (Math.sqrt(UPPER) - Math.sqrt(LOWER)));
+    expect(liquidityForAmounts(6000, LOWER, UPPER, 0, 5000)).toBe(liquidity);
+  });
+
+  it('is zero for an invalid range or price', () => {
+    expect(liquidityForAmounts(PRICE, UPPER, LOWER, 1, 5000)).toBe(0);
+    expect(liquidityForAmounts(0, LOWER, UPPER, 1, 5000)).toBe(0);
+  });
+});
+
+describe('amountsForLiquidity', () => {
+  it('matches the reference deposit in range', () => {
+    const { amountA, amountB } = amountsForLiquidity(REFERENCE_LIQUIDITY, PRICE, LOWER, UPPER);
+    expectRelativelyClose(amountA, REFERENCE_DEPOSIT_A);
+    expectRelativelyClose(amountB, 5000);
+  });
+
+  it('holds only token A below the range and only token B above it', () => {
+    const below = amountsForLiquidity(REFERENCE_LIQUIDITY, 4000, LOWER, UPPER);
+    expect(below.amountB).toBe(0);
+    expectRelativelyClose(below.amountA, REFERENCE_LIQUIDITY * (1 / Math.sqrt(LOWER) - 1 / Math.sqrt(UPPER)));
+
+    const above = amountsForLiquidity(REFERENCE_LIQUIDITY, 6000, LOWER, UPPER);
+    expect(above.amountA).toBe(0);
+    expectRelativelyClose(above.amountB, REFERENCE_LIQUIDITY * (Math.sqrt(UPPER) - Math.sqrt(LOWER)));
+  });
+
+  it('round-trips liquidity through amounts at any price', () => {
+    for (const price of [4000, LOWER, PRICE, UPPER, 6000]) {
+      const { amountA, amountB } = amountsForLiquidity(REFERENCE_LIQUIDITY, price, LOWER, UPPER);
+      expectRelativelyClose(liquidityForAmounts(price, LOWER, UPPER, amountA, amountB), REFERENCE_LIQUIDITY);
+    }
+  });
+});
+
+describe('openPosition', () => {
+  it('keeps what the range cannot absorb as idle balance', () => {
+    const position = openPosition(1, 5000, PRICE, LOWER, UPPER);
+    expectRelativelyClose(position.liquidity, REFERENCE_LIQUIDITY);
+    expectRelativelyClose(position.idleA, 1 - REFERENCE_DEPOSIT_A, 1e-6);
+    expect(position.idleB).toBeCloseTo(0, 9);
+  });
+
+  it('deposits everything of the single token a position outside the range needs', () => {
+    const below = openPosition(1, 5000, 4000, LOWER, UPPER);
+    expect(below.idleA).toBeCloseTo(0, 12);
+    expect(below.idleB).toBe(5000);
+
+    const above = openPosition(1, 5000, 6000, LOWER, UPPER);
+    expect(above.idleA).toBe(1);
+    expect(above.idleB).toBeCloseTo(0, 9);
+  });
+});
+
+// WETH has 18 decimals and USDC 6. On mainnet USDC is token0 of the USDC/WETH pools, which
+// trade around tick 200311 at 2000 USDC per ETH (1.0001^200311 ≈ 5e8 raw wei per raw USDC).
+describe('price and tick conversion with token decimals', () => {
+  it('matches the USDC/WETH pool tick with USDC as token A', () => {
+    expect(priceToTick(1 / 2000, 6, 18)).toBeCloseTo(200311.2015, 3);
+    expectRelativelyClose(tickToPrice(200311, 6, 18), 1 / 2000, 1e-4);
+  });
+
+  it('negates the tick when the token order is swapped', () => {
+    expect(priceToTick(2000, 18, 6)).toBeCloseTo(-200311.2015, 3);
+    expect(priceToTick(2000, 18, 6)).toBeCloseTo(-priceToTick(1 / 2000, 6, 18), 9);
+    expectRelativelyClose(tickToPrice(-200311, 18, 6), 2000, 1e-4);
+  });
+
+  it('places tick 0 at one raw unit per raw unit', () => {
+    expect(tickToPrice(0, 18, 6)).toBe(1e12);
+    expect(tickToPrice(0, 6, 18)).toBe(1e-12);
+    expect(priceToTick(1e12, 18, 6)).toBeCloseTo(0, 6);
+  });
+
+  it('round-trips prices and ticks in both token orders', () => {
+    for (const [price, decimalsA, decimalsB] of [[2000, 18, 6], [1 / 2000, 6, 18], [0.9995, 6, 6], [3.2e-5, 18, 8]]) {
+      expectRelativelyClose(tickToPrice(priceToTick(price, decimalsA, decimalsB), decimalsA, decimalsB), price);
+    }
+    for (const tick of [-887272, -200310, -1, 0, 1, 200310, 887272]) {
+      expect(priceToTick(tickToPrice(tick, 18, 6), 18, 6)).toBeCloseTo(tick, 6);
+    }
+  });
+});
+
+describe('tick spacing snapping', () => {
+  it('snaps to the nearest multiple of the spacing at positive and negative ticks', () => {
+    expect(nearestUsableTick(1 / 2000, 10, 6, 18)).toBe(200310);
+    expect(nearestUsableTick(2000, 10, 18, 6)).toBe(-200310);
+    expect(nearestUsableTick(2000, 60, 18, 6)).toBe(-200340);
+    expect(nearestUsableTick(2000, 200, 18, 6)).toBe(-200400);
+  });
+
+  it('moves range bounds onto usable ticks', () => {
+    const lower = snapPriceToTick(1600, 60, 18, 6);
+    const upper = snapPriceToTick(2400, 60, 18, 6);
+    expect(priceToTick(lower, 18, 6) / 60).toBeCloseTo(Math.round(priceToTick(lower, 18, 6) / 60), 6);
+    expect(priceToTick(upper, 18, 6) / 60).toBeCloseTo(Math.round(priceToTick(upper, 18, 6) / 60), 6);
+    // Within half a spacing of the typed price.
+    expect(Math.abs(lower / 1600 - 1)).toBeLessThan(1.0001 ** 30 - 1);
+    expect(Math.abs(upper / 2400 - 1)).toBeLessThan(1.0001 ** 30 - 1);
+    // Snapping a snapped bound leaves it where it is.
+    expectRelativelyClose(snapPriceToTick(lower, 60, 18, 6), lower);
+  });
+
+  it('leaves prices alone without a spacing or a positive price', () => {
+    expect(snapPriceToTick(2000, 0, 18, 6)).toBe(2000);
+    expect(snapPriceToTick(0, 60, 18, 6)).toBe(0);
+  });
+});
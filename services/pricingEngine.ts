@@ -0,0 +1,207 @@
+// Pure AMM math: concentrated liquidity (Uniswap V3 style), of which a constant-product pool
+// is the full range [0, ∞), and two-coin stableswap (Curve style).
+//
+// Prices are always expressed as the ratio tokenA/tokenB, i.e. token A plays the
+// role of token0 and token B the role of token1 in the V3 whitepaper notation.
+
+export interface TokenAmounts {
+  amountA: number;
+  amountB: number;
+}
+
+// Invariant a position's liquidity follows. For stableswap, liquidity is the position's share
+// of the invariant D.
+export type PoolCurve =
+  | { type: 'concentrated' }
+  | { type: 'stableswap'; amplification: number };
+
+export const CONCENTRATED_CURVE: PoolCurve = { type: 'concentrated' };
+
+export const FULL_RANGE = { lowerPrice: 0, upperPrice: Infinity };
+
+export interface LpPosition {
+  curve: PoolCurve;
+  liquidity: number;
+  lowerPrice: number;
+  upperPrice: number;
+  // Tokens that could not be deposited at the entry price ratio stay idle in the wallet.
+  idleA: number;
+  idleB: number;
+}
+
+export const isValidRange = (lowerPrice: number, upperPrice: number): boolean =>
+  lowerPrice >= 0 && upperPrice > lowerPrice;
+
+const TICK_BASE = 1.0001;
+
+// Ticks price the smallest units of the tokens, 1.0001^tick = raw B per raw A, so a price in
+// whole tokens is shifted by the difference in decimals first.
+export const priceToTick = (price: number, decimalsA = 0, decimalsB = 0): number =>
+  Math.log(price * 10 ** (decimalsB - decimalsA)) / Math.log(TICK_BASE);
+
+export const tickToPrice = (tick: number, decimalsA = 0, decimalsB = 0): number =>
+  TICK_BASE ** tick * 10 ** (decimalsA - decimalsB);
+
+// Nearest tick that is a multiple of `tickSpacing`, i.e. one a pool can use as a range bound.
+export const nearestUsableTick = (price: number, tickSpacing: number, decimalsA = 0, decimalsB = 0): number =>
+  Math.round(priceToTick(price, decimalsA, decimalsB) / tickSpacing) * tickSpacing;
+
+export const snapPriceToTick = (price: number, tickSpacing: number, decimalsA = 0, decimalsB = 0): number =>
+  price > 0 && tickSpacing > 0
+    ? tickToPrice(nearestUsableTick(price, tickSpacing, decimalsA, decimalsB), decimalsA, decimalsB)
+    : price;
+
+// Balances of a two-coin stableswap pool with invariant D = 1 whose marginal price is `price`.
+// On the curve 4A(x + y) + D = 4AD + D³/(4xy), y follows from x in closed form and the price
+// falls as x grows, so x is found by bisection on log x.
+const stableswapUnitBalances = (price: number, amplification: number): TokenAmounts => {
+  const a = amplification;
+  const balanceB = (x: number): number => {
+    const linear = 16 * a * x * x + 4 * x * (1 - 4 * a);
+    const root = Math.sqrt(linear * linear + 64 * a * x);
+    return linear >= 0 ? 2 / (linear + root) : (root - linear) / (32 * a * x);
+  };
+  const marginalPrice = (x: number, y: number): number =>
+    (4 * a + 1 / (4 * x * x * y)) / (4 * a + 1 / (4 * x * y * y));
+
+  let lo = -30;
+  let hi = 30;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    const x = Math.exp(mid);
+    if (marginalPrice(x, balanceB(x)) > price) lo = mid; else hi = mid;
+  }
+  const amountA = Math.exp((lo + hi) / 2);
+  return { amountA, amountB: balanceB(amountA) };
+};
+
+// Liquidity L supported by the given token amounts at `price` for the range [lowerPrice, upperPrice].
+export const liquidityForAmounts = (
+  price: number,
+  lowerPrice: number,
+  upperPrice: number,
+  amountA: number,
+  amountB: number,
+  curve: PoolCurve = CONCENTRATED_CURVE
+): number => {
+  if (curve.type === 'stableswap') {
+    if (price <= 0) return 0;
+    const unit = stableswapUnitBalances(price, curve.amplification);
+    return Math.min(amountA / unit.amountA, amountB / unit.amountB);
+  }
+  if (price <= 0 || !isValidRange(lowerPrice, upperPrice)) return 0;
+
+  const sqrtP = Math.sqrt(price);
+  const sqrtPa = Math.sqrt(lowerPrice);
+  const sqrtPb = Math.sqrt(upperPrice);
+
+  if (price <= lowerPrice) {
+    // Below range: position is entirely token A.
+    return amountA / (1 / sqrtPa - 1 / sqrtPb);
+  }
+  if (price >= upperPrice) {
+    // Above range: position is entirely token B.
+    return amountB / (sqrtPb - sqrtPa);
+  }
+  const liquidityA = amountA / (1 / sqrtP - 1 / sqrtPb);
+  const liquidityB = amountB / (sqrtP - sqrtPa);
+  return Math.min(liquidityA, liquidityB);
+};
+
+// Token amounts held by liquidity L at `price` for the range [lowerPrice, upperPrice].
+export const amountsForLiquidity = (
+  liquidity: number,
+  price: number,
+  lowerPrice: number,
+  upperPrice: number,
+  curve: PoolCurve = CONCENTRATED_CURVE
+): TokenAmounts => {
+  if (liquidity <= 0 || price <= 0 || !isValidRange(lowerPrice, upperPrice)) {
+    return { amountA: 0, amountB: 0 };
+  }
+  if (curve.type === 'stableswap') {
+    const unit = stableswapUnitBalances(price, curve.amplification);
+    return { amountA: unit.amountA * liquidity, amountB: unit.amountB * liquidity };
+  }
+
+  const sqrtPa = Math.sqrt(lowerPrice);
+  const sqrtPb = Math.sqrt(upperPrice);
+
+  if (price <= lowerPrice) {
+    return { amountA: liquidity * (1 / sqrtPa - 1 / sqrtPb), amountB: 0 };
+  }
+  if (price >= upperPrice) {
+    return { amountA: 0, amountB: liquidity * (sqrtPb - sqrtPa) };
+  }
+  const sqrtP = Math.sqrt(price);
+  return {
+    amountA: liquidity * (1 / sqrtP - 1 / sqrtPb),
+    amountB: liquidity * (sqrtP - sqrtPa),
+  };
+};
+
+// Tokens a position worth `value` holds when opened over [lowerPrice, upperPrice] at `priceRatio`.
+export const amountsForValue = (
+  value: number,
+  priceA: number,
+  priceB: number,
+  priceRatio: number,
+  lowerPrice: number,
+  upperPrice: number,
+  curve: PoolCurve = CONCENTRATED_CURVE
+): TokenAmounts => {
+  const perLiquidity = amountsForLiquidity(1, priceRatio, lowerPrice, upperPrice, curve);
+  const valuePerLiquidity = perLiquidity.amountA * priceA + perLiquidity.amountB * priceB;
+  const liquidity = valuePerLiquidity > 0 ? Math.max(0, value) / valuePerLiquidity : 0;
+  return { amountA: perLiquidity.amountA * liquidity, amountB: perLiquidity.amountB * liquidity };
+};
+
+// Mints a position from the deposited amounts. Whatever the range cannot absorb at the
+// entry price is kept as idle balance so no capital silently disappears.
+export const openPosition = (
+  amountA: number,
+  amountB: number,
+  price: number,
+  lowerPrice: number,
+  upperPrice: number,
+  curve: PoolCurve = CONCENTRATED_CURVE
+): LpPosition => {
+  const liquidity = liquidityForAmounts(price, lowerPrice, upperPrice, amountA, amountB, curve);
+  const deposited = amountsForLiquidity(liquidity, price, lowerPrice, upperPrice, curve);
+  return {
+    curve,
+    liquidity,
+    lowerPrice,
+    upperPrice,
+    idleA: Math.max(0, amountA - deposited.amountA),
+    idleB: Math.max(0, amountB - deposited.amountB),
+  };
+};
+
+// Token holdings (in-range liquidity plus idle balance) of a position at `price`.
+export const positionAmounts = (position: LpPosition, price: number): TokenAmounts => {
+  const { amountA, amountB } = amountsForLiquidity(position.liquidity, price, position.lowerPrice, position.upperPrice, position.curve);
+  return {
+    amountA: amountA + position.idleA,
+    amountB: amountB + position.idleB,
+  };
+};
+
+// USD value of a position given the USD prices of both tokens.
+export const positionValue = (position: LpPosition, priceA: number, priceB: number): number => {
+  const price = priceB > 0 ? priceA / priceB : 0;
+  const { amountA, amountB } = positionAmounts(position, price);
+  return amountA * priceA + amountB * priceB;
+};
+
+// Liquidity of a full-range position worth `value` USD, where a full-range position
+// holds L/√P of token A and L·√P of token B. On a stableswap curve this is the D it adds.
+export const poolLiquidityForValue = (value: number, priceA: number, priceB: number, curve: PoolCurve = CONCENTRATED_CURVE): number => {
+  const price = priceB > 0 ? priceA / priceB : 0;
+  if (value <= 0 || price <= 0) return 0;
+  if (curve.type === 'stableswap') {
+    const unit = stableswapUnitBalances(price, curve.amplification);
+    return value / (unit.amountA * priceA + unit.amountB * priceB);
+  }
+  return value / (2 * Math.sqrt(price) * priceB);
+};
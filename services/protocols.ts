@@ -0,0 +1,100 @@
+import { type Simulation, type ProtocolDefinition, type FeeTier } from '../types';
+import { type PoolCurve, CONCENTRATED_CURVE, FULL_RANGE, nearestUsableTick, snapPriceToTick, tickToPrice } from './pricingEngine';
+
+export const DEFAULT_PROTOCOL_ID = 'uniswap-v3';
+
+const registry = new Map<string, ProtocolDefinition>();
+
+export const registerProtocol = (protocol: ProtocolDefinition): void => {
+  registry.set(protocol.id, protocol);
+};
+
+export const listProtocols = (): ProtocolDefinition[] => Array.from(registry.values());
+
+// Unknown or missing ids resolve to Uniswap V3, the math every simulation used before the registry.
+export const getProtocol = (id?: string): ProtocolDefinition =>
+  (id && registry.get(id)) || registry.get(DEFAULT_PROTOCOL_ID)!;
+
+registerProtocol({
+  id: 'uniswap-v2',
+  name: 'Uniswap V2',
+  description: 'Constant product (x·y = k) over the full price range.',
+  invariant: 'constantProduct',
+  feeTiers: [{ fee: 0.3, tickSpacing: 0 }],
+});
+
+registerProtocol({
+  id: DEFAULT_PROTOCOL_ID,
+  name: 'Uniswap V3',
+  description: 'Concentrated liquidity with bounds on the fee tier\'s tick spacing.',
+  invariant: 'concentrated',
+  feeTiers: [
+    { fee: 0.01, tickSpacing: 1 },
+    { fee: 0.05, tickSpacing: 10 },
+    { fee: 0.3, tickSpacing: 60 },
+    { fee: 1, tickSpacing: 200 },
+  ],
+});
+
+registerProtocol({
+  id: 'curve-stableswap',
+  name: 'Curve Stableswap',
+  description: 'Stableswap invariant for pegged pairs; a higher amplification keeps the curve flat near the peg.',
+  invariant: 'stableswap',
+  feeTiers: [],
+  defaultAmplification: 100,
+});
+
+export const hasPriceRange = (sim: Simulation): boolean =>
+  getProtocol(sim.protocolId).invariant === 'concentrated';
+
+// The protocol's fee tier closest to the simulation's fee, or null when any fee is allowed.
+export const getFeeTier = (sim: Simulation): FeeTier | null => {
+  const { feeTiers } = getProtocol(sim.protocolId);
+  if (feeTiers.length === 0) return null;
+  const fee = sim.volumeFee ?? 0;
+  return feeTiers.reduce((best, tier) => Math.abs(tier.fee - fee) < Math.abs(best.fee - fee) ? tier : best);
+};
+
+// Fee (%) charged on the pool's volume.
+export const getPoolFee = (sim: Simulation): number => getFeeTier(sim)?.fee ?? sim.volumeFee ?? 0;
+
+export const getPoolCurve = (sim: Simulation): PoolCurve => {
+  const protocol = getProtocol(sim.protocolId);
+  const amplification = sim.amplification ?? protocol.defaultAmplification ?? 0;
+  // A stableswap curve flattens into constant product as A goes to 0.
+  return protocol.invariant === 'stableswap' && amplification > 0
+    ? { type: 'stableswap', amplification }
+    : CONCENTRATED_CURVE;
+};
+
+export const getTickSpacing = (sim: Simulation): number =>
+  hasPriceRange(sim) ? getFeeTier(sim)?.tickSpacing ?? 0 : 0;
+
+// Range bound the pool can actually use: the price of the nearest tick on the fee tier's spacing.
+export const snapBound = (sim: Simulation, price: number): number =>
+  snapPriceToTick(price, getTickSpacing(sim), sim.decimalsA, sim.decimalsB);
+
+// Bounds are stored to 8 significant digits, like the ones typed into a card, which still
+// resolves to the same tick after snapping.
+export const roundBound = (price: number): number => Number(price.toPrecision(8));
+
+// Tick index of the usable bound nearest to `price`, or null for pools without ticks.
+export const getBoundTick = (sim: Simulation, price: number): number | null => {
+  const tickSpacing = getTickSpacing(sim);
+  return tickSpacing > 0 && price > 0 ? nearestUsableTick(price, tickSpacing, sim.decimalsA, sim.decimalsB) : null;
+};
+
+// Range a position can actually be opened over: the full range without a range concept,
+// otherwise the given bounds moved to the nearest ticks of the fee tier.
+export const getDeployableRange = (sim: Simulation, lowerPrice: number, upperPrice: number): { lowerPrice: number; upperPrice: number } => {
+  if (!hasPriceRange(sim)) return FULL_RANGE;
+  const lower = snapBound(sim, lowerPrice);
+  const upper = snapBound(sim, upperPrice);
+  // Bounds closer together than one tick spacing snap onto the same tick; keep them one spacing apart.
+  const lowerTick = getBoundTick(sim, lowerPrice);
+  if (lowerTick !== null && upperPrice > lowerPrice && upper <= lower) {
+    return { lowerPrice: lower, upperPrice: tickToPrice(lowerTick + getTickSpacing(sim), sim.decimalsA, sim.decimalsB) };
+  }
+  return { lowerPrice: lower, upperPrice: upper };
+};
@@ -0,0 +1,46 @@
+import { type Simulation } from '../types';
+
+// Mulberry32: a small, fast PRNG so runs with the same seed are reproducible.
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample via Box-Muller.
+export const nextGaussian = (rng: () => number): number => {
+  const u1 = Math.max(rng(), Number.EPSILON);
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// String hash (FNV-1a) for deriving per-simulation seeds.
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Largest move of one random walk step, as a fraction of the price.
+const WALK_STEP = 0.05;
+const PEGGED_WALK_STEP = 0.01;
+
+// One small random move from the simulation's latest prices: +/- ~5% for a free-floating token
+// and +/- ~1% for a pegged one such as a stablecoin.
+export const randomWalkStep = (
+  simulation: Simulation,
+  random: () => number,
+  pegged: { a: boolean; b: boolean }
+): { priceA: number; priceB: number } => {
+  const priceA = simulation.latestPriceA * (1 + (random() - 0.5) * 2 * (pegged.a ? PEGGED_WALK_STEP : WALK_STEP));
+  const priceB = simulation.latestPriceB * (1 + (random() - 0.5) * 2 * (pegged.b ? PEGGED_WALK_STEP : WALK_STEP));
+  return { priceA: parseFloat(priceA.toFixed(pegged.a ? 4 : 2)), priceB: parseFloat(priceB.toFixed(4)) };
+};
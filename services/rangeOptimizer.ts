@@ -0,0 +1,117 @@
+import { type Simulation } from '../types';
+import { type PricePoint } from './pricePath';
+import { getInitialInvestment, simulatePath } from './simulationEngine';
+import { type MonteCarloOptions, generateGbmPath, getMonteCarloOptions } from './monteCarlo';
+import { createRng } from './random';
+
+export type OptimizerObjective = 'maxReturn' | 'maxFeeApr' | 'minIlDrawdown';
+
+export interface OptimizerOptions {
+  objective: OptimizerObjective;
+  volatility: number; // expected annualized volatility of token A, in %
+  minProbInRange: number; // in %, only used by 'maxFeeApr'
+  paths: number;
+  seed: number;
+}
+
+export interface RangeCandidate {
+  pctLower: number;
+  pctUpper: number;
+  lowerPriceBound: number;
+  upperPriceBound: number;
+  expectedReturn: number;
+  feeApr: number; // in %
+  probInRange: number; // share of paths that never left the range, 0..1
+  ilDrawdownPct: number; // expected worst IL along the path, in % of HODL value (<= 0)
+  feasible: boolean;
+  score: number;
+}
+
+export interface OptimizerResult {
+  objective: OptimizerObjective;
+  candidates: RangeCandidate[];
+  best: RangeCandidate | null;
+}
+
+// Downside/upside deviations (in %) from the initial price that are tried in every combination.
+const CANDIDATE_DEVIATIONS = [2.5, 5, 10, 15, 25, 40, 60];
+
+export const DEFAULT_OPTIMIZER_OPTIONS: OptimizerOptions = {
+  objective: 'maxReturn',
+  volatility: 80,
+  minProbInRange: 80,
+  paths: 200,
+  seed: 42,
+};
+
+const scoreCandidate = (candidate: Omit<RangeCandidate, 'feasible' | 'score'>, options: OptimizerOptions) => {
+  switch (options.objective) {
+    case 'maxFeeApr':
+      return { feasible: candidate.probInRange * 100 >= options.minProbInRange, score: candidate.feeApr };
+    case 'minIlDrawdown':
+      return { feasible: true, score: candidate.ilDrawdownPct };
+    case 'maxReturn':
+    default:
+      return { feasible: true, score: candidate.expectedReturn };
+  }
+};
+
+// Evaluates a grid of candidate ranges over the same set of simulated price paths, so the
+// candidates are compared on identical market conditions, and picks the best feasible one.
+export const optimizeRange = (sim: Simulation, options: OptimizerOptions): OptimizerResult => {
+  const initialPriceRatio = sim.initialPriceB > 0 ? sim.initialPriceA / sim.initialPriceB : 0;
+  const initialInvestment = getInitialInvestment(sim);
+  if (initialPriceRatio <= 0 || sim.duration <= 0 || initialInvestment <= 0) {
+    return { objective: options.objective, candidates: [], best: null };
+  }
+
+  const monteCarloOptions: MonteCarloOptions = { ...getMonteCarloOptions(sim), volatilityA: options.volatility, seed: options.seed };
+  const rng = createRng(options.seed);
+  const pathCount = Math.max(1, Math.floor(options.paths));
+  const paths: PricePoint[][] = [];
+  for (let i = 0; i < pathCount; i++) {
+    paths.push(generateGbmPath(sim, monteCarloOptions, rng));
+  }
+
+  const candidates: RangeCandidate[] = [];
+  for (const pctLower of CANDIDATE_DEVIATIONS) {
+    for (const pctUpper of CANDIDATE_DEVIATIONS) {
+      const lowerPriceBound = initialPriceRatio * (1 - pctLower / 100);
+      const upperPriceBound = initialPriceRatio * (1 + pctUpper / 100);
+      const candidateSim: Simulation = { ...sim, lowerPriceBound, upperPriceBound, priceSeries: undefined };
+
+      let totalReturn = 0, totalFees = 0, totalDrawdown = 0, stayedInRange = 0;
+      for (const path of paths) {
+        const timeline = simulatePath(candidateSim, path);
+        const final = timeline[timeline.length - 1];
+        totalReturn += final.totalValue - initialInvestment;
+        totalFees += final.earnedFees;
+        let worstIlPct = 0;
+        let alwaysInRange = true;
+        for (const snapshot of timeline) {
+          if (snapshot.holdValue > 0) worstIlPct = Math.min(worstIlPct, (snapshot.impermanentLoss / snapshot.holdValue) * 100);
+          if (!snapshot.isInRange) alwaysInRange = false;
+        }
+        totalDrawdown += worstIlPct;
+        if (alwaysInRange) stayedInRange++;
+      }
+
+      const metrics = {
+        pctLower,
+        pctUpper,
+        lowerPriceBound,
+        upperPriceBound,
+        expectedReturn: totalReturn / pathCount,
+        feeApr: (totalFees / pathCount) / initialInvestment * (365 / sim.duration) * 100,
+        probInRange: stayedInRange / pathCount,
+        ilDrawdownPct: totalDrawdown / pathCount,
+      };
+      candidates.push({ ...metrics, ...scoreCandidate(metrics, options) });
+    }
+  }
+
+  const best = candidates
+    .filter(candidate => candidate.feasible)
+    .reduce<RangeCandidate | null>((prev, curr) => (!prev || curr.score > prev.score ? curr : prev), null);
+  return { objective: options.objective, candidates, best };
+};
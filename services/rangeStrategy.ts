@@ -0,0 +1,68 @@
+import { type Simulation } from '../types';
+import { type LpPosition, amountsForValue, openPosition, positionAmounts } from './pricingEngine';
+import { getRebalanceGasCost } from './transactionCosts';
+import { getDeployableRange, hasPriceRange } from './protocols';
+
+// One stretch of the path during which the position kept the same range.
+export interface RangeEpoch {
+  startDay: number;
+  endDay: number;
+  lowerPrice: number;
+  upperPrice: number;
+  earnedFees: number;
+  impermanentLoss: number; // LP value at the end of the epoch vs holding its starting tokens
+  resetCost: number; // swap fee and gas paid to open this epoch's range (<= 0)
+}
+
+export interface RangeReset {
+  position: LpPosition;
+  cost: number; // swap fee plus gas, taken out of the position (<= 0)
+}
+
+const isInside = (position: LpPosition, priceRatio: number): boolean =>
+  priceRatio >= position.lowerPrice && priceRatio <= position.upperPrice;
+
+// Whether the strategy re-centers the range at this step. `outOfRangeSince` is the first day
+// of the current out-of-range streak and `anchorRatio` the price the range was centered on.
+export const shouldResetRange = (
+  sim: Simulation,
+  position: LpPosition,
+  priceRatio: number,
+  anchorRatio: number,
+  outOfRangeSince: number | null,
+  day: number
+): boolean => {
+  if (!hasPriceRange(sim)) return false;
+  switch (sim.rangeStrategy) {
+    case 'outOfRange':
+      return !isInside(position, priceRatio) && outOfRangeSince !== null && day - outOfRangeSince >= (sim.rangeResetDelay ?? 0);
+    case 'threshold': {
+      const triggerPct = sim.rangeResetTriggerPct ?? 0;
+      const width = position.upperPrice - position.lowerPrice;
+      return triggerPct > 0 && width > 0 && (Math.abs(priceRatio - anchorRatio) / width) * 100 >= triggerPct;
+    }
+    default:
+      return false;
+  }
+};
+
+// Withdraws the position and re-deposits it in a range of the same shape around the current
+// price, swapping to the token mix the new range needs. That realizes the epoch's IL.
+export const resetRange = (sim: Simulation, position: LpPosition, priceA: number, priceB: number): RangeReset => {
+  const priceRatio = priceA / priceB;
+  const initialRatio = sim.initialPriceA / sim.initialPriceB;
+  const { lowerPrice, upperPrice } = getDeployableRange(
+    sim,
+    priceRatio * (sim.lowerPriceBound / initialRatio),
+    priceRatio * (sim.upperPriceBound / initialRatio)
+  );
+
+  const held = positionAmounts(position, priceRatio);
+  const value = held.amountA * priceA + held.amountB * priceB;
+  const target = amountsForValue(value, priceA, priceB, priceRatio, lowerPrice, upperPrice, position.curve);
+  const swapFee = -Math.abs(held.amountA - target.amountA) * priceA * ((sim.rangeResetSwapFee ?? 0) / 100);
+  const cost = swapFee - getRebalanceGasCost(sim);
+
+  const funded = amountsForValue(value + cost, priceA, priceB, priceRatio, lowerPrice, upperPrice, position.curve);
+  return { position: openPosition(funded.amountA, funded.amountB, priceRatio, lowerPrice, upperPrice, position.curve), cost };
+};
@@ -0,0 +1,42 @@
+import { type Simulation, type ProjectionScenario } from '../types';
+import { type SimulationResults, calculateSimulation } from './simulationEngine';
+
+export interface ScenarioResult {
+  scenario: ProjectionScenario;
+  simulation: Simulation;
+  results: SimulationResults;
+}
+
+// The simulation projected to the scenario's end prices along a linear path. An imported
+// price series would override the end prices, so it is left out.
+export const applyScenario = (sim: Simulation, scenario: ProjectionScenario): Simulation => ({
+  ...sim,
+  latestPriceA: scenario.priceA,
+  latestPriceB: scenario.priceB,
+  duration: scenario.duration ?? sim.duration,
+  apr: scenario.apr ?? sim.apr,
+  priceSeries: undefined,
+});
+
+export const calculateScenarios = (sim: Simulation): ScenarioResult[] =>
+  (sim.scenarios ?? []).map(scenario => {
+    const simulation = applyScenario(sim, scenario);
+    return { scenario, simulation, results: calculateSimulation(simulation) };
+  });
+
+const createScenario = (name: string, priceA: number, priceB: number): ProjectionScenario => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  priceA,
+  priceB,
+});
+
+// Bear/base/bull starting points: token A down 30%, flat and up 30% from its initial price.
+export const createDefaultScenarios = (sim: Simulation): ProjectionScenario[] => [
+  createScenario('Bear', sim.initialPriceA * 0.7, sim.initialPriceB),
+  createScenario('Base', sim.initialPriceA, sim.initialPriceB),
+  createScenario('Bull', sim.initialPriceA * 1.3, sim.initialPriceB),
+];
+
+export const createScenarioFromSimulation = (sim: Simulation, name: string): ProjectionScenario =>
+  createScenario(name, sim.latestPriceA, sim.latestPriceB);
@@ -0,0 +1,79 @@
+import { type Simulation } from '../types';
+import { calculateSimulation } from './simulationEngine';
+import { applyScenario } from './scenarios';
+
+export type SensitivityAxis = 'duration' | 'apr';
+
+export interface SensitivityOptions {
+  yAxis: SensitivityAxis;
+  priceChangeMin: number; // change of token A's end price from its initial price, in %
+  priceChangeMax: number;
+  columns: number;
+  rows: number;
+}
+
+export interface SensitivityCell {
+  priceChangePct: number;
+  priceA: number; // token A's end price for this column
+  yValue: number; // days or APR (%), depending on the y-axis
+  totalNetReturnPct: number;
+}
+
+export interface SensitivityGrid {
+  yAxis: SensitivityAxis;
+  priceChanges: number[]; // column values, ascending
+  yValues: number[]; // row values, ascending
+  cells: SensitivityCell[][]; // [row][column]
+}
+
+export const DEFAULT_SENSITIVITY_OPTIONS: SensitivityOptions = {
+  yAxis: 'duration',
+  priceChangeMin: -50,
+  priceChangeMax: 100,
+  columns: 13,
+  rows: 8,
+};
+
+// Keeps a single grid to a few thousand simulations.
+export const MAX_SENSITIVITY_RESOLUTION = 40;
+
+const linspace = (from: number, to: number, count: number): number[] =>
+  count <= 1 ? [from] : Array.from({ length: count }, (_, i) => from + (i / (count - 1)) * (to - from));
+
+const clampResolution = (value: number): number =>
+  Math.max(2, Math.min(MAX_SENSITIVITY_RESOLUTION, Math.floor(value) || 2));
+
+// Row values around the current setting: durations from one day to twice the current one,
+// APRs from zero to twice the current one.
+export const getSensitivityYValues = (sim: Simulation, yAxis: SensitivityAxis, rows: number): number[] => {
+  const count = clampResolution(rows);
+  if (yAxis === 'apr') {
+    return linspace(0, sim.apr > 0 ? sim.apr * 2 : 100, count);
+  }
+  const maxDuration = Math.max(2, Math.round(sim.duration * 2));
+  // Whole days only; short durations can give fewer rows than asked for.
+  return Array.from(new Set(linspace(1, maxDuration, count).map(Math.round)));
+};
+
+// Projects the simulation to every combination of token A end price and duration (or APR)
+// along a linear path, like a scenario, and records the total net return of each.
+export const buildSensitivityGrid = (sim: Simulation, options: SensitivityOptions): SensitivityGrid => {
+  const low = Math.max(-99, Math.min(options.priceChangeMin, options.priceChangeMax));
+  const high = Math.max(low + 1, options.priceChangeMin, options.priceChangeMax);
+  const priceChanges = linspace(low, high, clampResolution(options.columns));
+  const yValues = getSensitivityYValues(sim, options.yAxis, options.rows);
+
+  const cells = yValues.map(yValue => priceChanges.map(priceChangePct => {
+    const priceA = sim.initialPriceA * (1 + priceChangePct / 100);
+    const projected = applyScenario(sim, {
+      id: 'sensitivity',
+      name: '',
+      priceA,
+      priceB: sim.latestPriceB,
+      [options.yAxis]: yValue,
+    });
+    return { priceChangePct, priceA, yValue, totalNetReturnPct: calculateSimulation(projected).totalNetReturnPct };
+  }));
+
+  return { yAxis: options.yAxis, priceChanges, yValues, cells };
+};
@@ -0,0 +1,52 @@
+import { type Simulation } from '../types';
+import { type MonteCarloOptions, type MonteCarloSummary, runMonteCarlo } from './monteCarlo';
+import { type OptimizerOptions, type OptimizerResult, optimizeRange } from './rangeOptimizer';
+import { type SensitivityOptions, type SensitivityGrid, buildSensitivityGrid } from './sensitivity';
+import { type PayoffCurve, buildPayoffCurve } from './payoff';
+
+// Heavy simulation jobs run here so the cards stay responsive.
+export type WorkerJob =
+  | { kind: 'monteCarlo'; simulation: Simulation; options: MonteCarloOptions }
+  | { kind: 'optimizeRange'; simulation: Simulation; options: OptimizerOptions }
+  | { kind: 'sensitivity'; simulation: Simulation; options: SensitivityOptions }
+  | { kind: 'payoff'; simulation: Simulation };
+
+export interface WorkerJobResults {
+  monteCarlo: MonteCarloSummary;
+  optimizeRange: OptimizerResult;
+  sensitivity: SensitivityGrid;
+  payoff: PayoffCurve;
+}
+
+export interface WorkerRequest {
+  id: number;
+  job: WorkerJob;
+}
+
+export type WorkerResponse =
+  | { id: number; result: WorkerJobResults[WorkerJob['kind']] }
+  | { id: number; error: string };
+
+const runJob = (job: WorkerJob): WorkerJobResults[WorkerJob['kind']] => {
+  switch (job.kind) {
+    case 'monteCarlo':
+      return runMonteCarlo(job.simulation, job.options);
+    case 'optimizeRange':
+      return optimizeRange(job.simulation, job.options);
+    case 'sensitivity':
+      return buildSensitivityGrid(job.simulation, job.options);
+    case 'payoff':
+      return buildPayoffCurve(job.simulation);
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const response: WorkerResponse = { id, result: runJob(job) };
+    self.postMessage(response);
+  } catch (error) {
+    const response: WorkerResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,327 @@
+import { type Simulation } from '../types';
+import { type LpPosition, type TokenAmounts, isValidRange, openPosition, poolLiquidityForValue, positionAmounts, positionValue } from './pricingEngine';
+import { getDeployableRange, getPoolCurve, getPoolFee } from './protocols';
+import { type PricePoint, getLinearPricePath } from './pricePath';
+import { getSeriesPricePath } from './priceSeries';
+import { getTrackedPricePath } from './tracking';
+import { type HedgeState, getCloseCost, getLiquidationPrice, getMarginRatio, openHedge, stepHedge } from './hedging';
+import { type RangeEpoch, resetRange, shouldResetRange } from './rangeStrategy';
+import { type MintedPosition, type TransactionCosts, getTotalTransactionCosts, getTransactionCosts, getWalletPaidCosts, mintWithSwap } from './transactionCosts';
+
+export interface SimulationSnapshot {
+  day: number;
+  priceA: number;
+  priceB: number;
+  holdValue: number;
+  lpValue: number;
+  earnedFees: number;
+  impermanentLoss: number; // excludes mint slippage and range reset costs, which are reported separately
+  rangeResetCosts: number; // swap fees and gas paid to re-center the range so far (<= 0)
+  rangeResetCount: number;
+  isRangeReset: boolean; // the range was re-centered at this step
+  lowerPriceBound: number; // range in effect after this step
+  upperPriceBound: number;
+  transactionCosts: number; // on-chain costs so far, including burning the position at this step (<= 0)
+  shortPnl: number;
+  fundingPnl: number;
+  hedgeCosts: number; // taker fees paid plus the fee to close the short at this step
+  shortUnits: number;
+  rebalanceCount: number;
+  marginRatio: number | null; // hedge equity as a % of its notional, null without an open short
+  liquidationPrice: number | null;
+  isLiquidated: boolean;
+  totalValue: number;
+  isInRange: boolean;
+}
+
+export interface SimulationResults {
+  initialInvestment: number;
+  earnedFees: number;
+  impermanentLoss: number;
+  impermanentLossPct: number;
+  holdValue: number;
+  finalLpValue: number;
+  lpNetReturn: number;
+  lpNetReturnPct: number;
+  rangeResetCosts: number;
+  rangeResetCount: number;
+  rangeEpochs: RangeEpoch[];
+  finalHoldings: TokenAmounts; // tokens held by the LP position at the final prices
+  transactionCosts: TransactionCosts;
+  totalTransactionCosts: number;
+  breakEvenDays: number | null; // days of fees needed to cover the transaction costs, null if fees never do
+  shortPnl: number;
+  fundingPnl: number;
+  hedgeCosts: number;
+  rebalanceCount: number;
+  residualPnl: number; // LP price P&L plus short P&L, before fees, funding and costs
+  finalShortUnits: number;
+  entryLiquidationPrice: number | null;
+  liquidationDay: number | null;
+  totalNetReturn: number;
+  totalNetReturnPct: number;
+  finalTotalValue: number;
+  isInRange: boolean;
+  finalPriceA: number;
+  finalPriceB: number;
+  priceRange: { min: number; max: number; current: number; isInRange: boolean };
+}
+
+export const getInitialInvestment = (sim: Simulation): number =>
+  (sim.amountA ?? 0) * sim.initialPriceA + (sim.amountB ?? 0) * sim.initialPriceB;
+
+// Range the simulation's bounds open a position over on its protocol.
+const getInitialRange = (sim: Simulation) => getDeployableRange(sim, sim.lowerPriceBound, sim.upperPriceBound);
+
+// Checks against the position's own range, which moves when the range is re-centered.
+const isPriceInRange = (sim: Simulation, position: LpPosition | null, priceA: number, priceB: number): boolean => {
+  const priceRatio = priceB > 0 ? priceA / priceB : 0;
+  const { lowerPrice, upperPrice } = position ?? getInitialRange(sim);
+  return priceRatio >= lowerPrice && priceRatio <= upperPrice;
+};
+
+const getHoldings = (sim: Simulation, position: LpPosition | null, priceA: number, priceB: number): TokenAmounts => {
+  const priceRatio = priceB > 0 ? priceA / priceB : 0;
+  return position && priceRatio > 0
+    ? positionAmounts(position, priceRatio)
+    : { amountA: sim.amountA ?? 0, amountB: sim.amountB ?? 0 };
+};
+
+const getLpValue = (sim: Simulation, position: LpPosition | null, priceA: number, priceB: number): number => {
+  const { amountA, amountB } = getHoldings(sim, position, priceA, priceB);
+  return amountA * priceA + amountB * priceB;
+};
+
+// Mints the LP position described by the simulation on its protocol's curve, or null when the
+// range is unusable. With transaction costs on, the deposit is swapped into the range's token
+// mix, paying slippage.
+const mintPosition = (sim: Simulation): MintedPosition | null => {
+  const initialPriceRatio = sim.initialPriceB > 0 ? sim.initialPriceA / sim.initialPriceB : 0;
+  const { lowerPrice, upperPrice } = getInitialRange(sim);
+  if (initialPriceRatio <= 0 || !isValidRange(lowerPrice, upperPrice)) return null;
+  const amountA = sim.amountA ?? 0;
+  const amountB = sim.amountB ?? 0;
+  if (sim.isTransactionCostEnabled) return mintWithSwap(sim, amountA, amountB, lowerPrice, upperPrice);
+  return { position: openPosition(amountA, amountB, initialPriceRatio, lowerPrice, upperPrice, getPoolCurve(sim)), slippage: 0 };
+};
+
+export const getPosition = (sim: Simulation): LpPosition | null => mintPosition(sim)?.position ?? null;
+
+// Position's share of the liquidity that is active at the given prices. The pool TVL is
+// treated as full-range depth, so tighter ranges earn a larger share of the volume.
+export const getLiquidityShare = (sim: Simulation, position: LpPosition | null, priceA: number, priceB: number): number => {
+  if (!position || position.liquidity <= 0 || !isPriceInRange(sim, position, priceA, priceB)) return 0;
+  const poolLiquidity = poolLiquidityForValue(sim.poolTvl ?? 0, priceA, priceB, position.curve);
+  return position.liquidity / (position.liquidity + poolLiquidity);
+};
+
+// Fees earned per day at the given prices.
+export const getDailyFees = (sim: Simulation, position: LpPosition | null, priceA: number, priceB: number): number => {
+  if (sim.feeMode === 'volume') {
+    const share = getLiquidityShare(sim, position, priceA, priceB);
+    return (sim.tradeVolume ?? 0) * (getPoolFee(sim) / 100) * share;
+  }
+  return getInitialInvestment(sim) * (sim.apr / 100) / 365;
+};
+
+// Range resets that have happened up to a snapshot.
+interface RangeResetProgress {
+  cost: number;
+  count: number;
+  isReset: boolean;
+}
+
+const NO_RANGE_RESETS: RangeResetProgress = { cost: 0, count: 0, isReset: false };
+
+// Values the simulation at the given prices after `day` days, with `earnedFees` accrued so far,
+// the hedge in the given state and `mintSlippage` paid when the position was opened.
+export const evaluateSnapshot = (
+  sim: Simulation,
+  priceA: number,
+  priceB: number,
+  day: number,
+  earnedFees: number,
+  position: LpPosition | null,
+  hedge: HedgeState,
+  rangeResets: RangeResetProgress = NO_RANGE_RESETS,
+  mintSlippage = 0
+): SimulationSnapshot => {
+  const amountA = sim.amountA ?? 0;
+  const amountB = sim.amountB ?? 0;
+
+  const holdValue = amountA * priceA + amountB * priceB;
+  const lpValue = getLpValue(sim, position, priceA, priceB);
+  const { shortPnl, fundingPnl, shortUnits, rebalanceCount } = hedge;
+  const hedgeCosts = hedge.tradingCosts + getCloseCost(sim, hedge, hedge.lastPrice);
+  const costs = getTransactionCosts(sim, day, mintSlippage, rangeResets.cost);
+
+  return {
+    day,
+    priceA,
+    priceB,
+    holdValue,
+    lpValue,
+    earnedFees,
+    impermanentLoss: lpValue - rangeResets.cost - mintSlippage - holdValue,
+    rangeResetCosts: rangeResets.cost,
+    rangeResetCount: rangeResets.count,
+    isRangeReset: rangeResets.isReset,
+    lowerPriceBound: (position ?? getInitialRange(sim)).lowerPrice,
+    upperPriceBound: (position ?? getInitialRange(sim)).upperPrice,
+    transactionCosts: getTotalTransactionCosts(costs),
+    shortPnl,
+    fundingPnl,
+    hedgeCosts,
+    shortUnits,
+    rebalanceCount,
+    marginRatio: getMarginRatio(hedge),
+    liquidationPrice: getLiquidationPrice(sim, hedge),
+    isLiquidated: hedge.liquidationDay !== null,
+    totalValue: lpValue + earnedFees + getWalletPaidCosts(costs) + shortPnl + fundingPnl + hedgeCosts,
+    isInRange: isPriceInRange(sim, position, priceA, priceB),
+  };
+};
+
+// While tracking, recorded prices drive the timeline up to today. Otherwise the imported price
+// series does when it covers the start date, and failing that prices move linearly to the
+// latest prices.
+export const getPricePath = (sim: Simulation): PricePoint[] => {
+  if (sim.isTrackingEnabled) return getTrackedPricePath(sim);
+  const seriesPath = getSeriesPricePath(sim);
+  return seriesPath.length > 0 ? seriesPath : getLinearPricePath(sim);
+};
+
+interface PathWalk {
+  snapshots: SimulationSnapshot[];
+  epochs: RangeEpoch[];
+  finalPosition: LpPosition | null;
+  mintSlippage: number;
+}
+
+// Walks a price path, accruing fees for each step at the price reached by that step. The range
+// strategy may re-center the position along the way, and the hedge is carried along so a
+// delta-neutral short follows whichever position is open.
+const walkPath = (sim: Simulation, path: PricePoint[]): PathWalk => {
+  const minted = mintPosition(sim);
+  const mintSlippage = minted?.slippage ?? 0;
+  let position = minted?.position ?? null;
+  const snapshots: SimulationSnapshot[] = [];
+  const epochs: RangeEpoch[] = [];
+  let earnedFees = 0;
+  let prevDay = path.length > 0 ? path[0].day : 0;
+  let hedge = openHedge(sim, position, prevDay);
+
+  let anchorRatio = sim.initialPriceB > 0 ? sim.initialPriceA / sim.initialPriceB : 0;
+  let outOfRangeSince: number | null = null;
+  let resets: RangeResetProgress = NO_RANGE_RESETS;
+  let epochStart = position ? positionAmounts(position, anchorRatio) : null;
+  if (position) {
+    epochs.push({ startDay: prevDay, endDay: prevDay, lowerPrice: position.lowerPrice, upperPrice: position.upperPrice, earnedFees: 0, impermanentLoss: 0, resetCost: 0 });
+  }
+  // IL of the current epoch: the position's value against simply holding the tokens it started with.
+  const closeEpoch = (priceA: number, priceB: number, day: number) => {
+    const epoch = epochs[epochs.length - 1];
+    if (!epoch || !position || !epochStart) return;
+    epoch.endDay = day;
+    epoch.impermanentLoss = positionValue(position, priceA, priceB) - (epochStart.amountA * priceA + epochStart.amountB * priceB);
+  };
+
+  for (const { day, priceA, priceB } of path) {
+    const stepFees = getDailyFees(sim, position, priceA, priceB) * (day - prevDay);
+    earnedFees += stepFees;
+    if (epochs.length > 0) epochs[epochs.length - 1].earnedFees += stepFees;
+
+    resets = { ...resets, isReset: false };
+    const priceRatio = priceB > 0 ? priceA / priceB : 0;
+    if (position && priceRatio > 0) {
+      outOfRangeSince = isPriceInRange(sim, position, priceA, priceB) ? null : (outOfRangeSince ?? day);
+      if (shouldResetRange(sim, position, priceRatio, anchorRatio, outOfRangeSince, day)) {
+        closeEpoch(priceA, priceB, day);
+        const reset = resetRange(sim, position, priceA, priceB);
+        position = reset.position;
+        resets = { cost: resets.cost + reset.cost, count: resets.count + 1, isReset: true };
+        anchorRatio = priceRatio;
+        outOfRangeSince = null;
+        epochStart = positionAmounts(position, priceRatio);
+        epochs.push({ startDay: day, endDay: day, lowerPrice: position.lowerPrice, upperPrice: position.upperPrice, earnedFees: 0, impermanentLoss: 0, resetCost: reset.cost });
+      }
+    }
+
+    hedge = stepHedge(sim, hedge, position, priceA, priceB, getLpValue(sim, position, priceA, priceB), day, day - prevDay);
+    prevDay = day;
+    snapshots.push(evaluateSnapshot(sim, priceA, priceB, day, earnedFees, position, hedge, resets, mintSlippage));
+  }
+
+  const last = path[path.length - 1];
+  if (last) closeEpoch(last.priceA, last.priceB, last.day);
+  return { snapshots, epochs, finalPosition: position, mintSlippage };
+};
+
+export const simulatePath = (sim: Simulation, path: PricePoint[]): SimulationSnapshot[] =>
+  walkPath(sim, path).snapshots;
+
+// First day on which the fees earned cover the costs so far. When that does not happen within
+// the path, the final fee rate is extrapolated against the fixed costs and the recurring collects.
+const getBreakEvenDays = (timeline: SimulationSnapshot[], costs: TransactionCosts): number | null => {
+  const startDay = timeline[0].day;
+  const covered = timeline.find(snapshot => snapshot.earnedFees + snapshot.transactionCosts >= 0);
+  if (covered) return covered.day - startDay;
+
+  const final = timeline[timeline.length - 1];
+  const elapsedDays = final.day - startDay;
+  if (elapsedDays <= 0) return null;
+  const netDailyFees = (final.earnedFees + costs.collectGas) / elapsedDays;
+  return netDailyFees > 0 ? -(final.transactionCosts - costs.collectGas) / netDailyFees : null;
+};
+
+export const calculateSimulation = (sim: Simulation): SimulationResults => {
+  const initialInvestment = getInitialInvestment(sim);
+  const { snapshots: timeline, epochs: rangeEpochs, finalPosition, mintSlippage } = walkPath(sim, getPricePath(sim));
+  const {
+    day, priceA, priceB, holdValue, lpValue: finalLpValue, earnedFees, impermanentLoss, rangeResetCosts, rangeResetCount,
+    lowerPriceBound, upperPriceBound, shortPnl, fundingPnl, hedgeCosts, shortUnits, rebalanceCount, isInRange,
+  } = timeline[timeline.length - 1];
+  const transactionCosts = getTransactionCosts(sim, day, mintSlippage, rangeResetCosts);
+
+  const impermanentLossPct = holdValue > 0 ? (impermanentLoss / holdValue) * 100 : 0;
+  // Slippage and reset costs are already out of the LP value; gas paid from the wallet is not.
+  const lpNetReturn = (finalLpValue + earnedFees + getWalletPaidCosts(transactionCosts)) - initialInvestment;
+  const lpNetReturnPct = initialInvestment > 0 ? (lpNetReturn / initialInvestment) * 100 : 0;
+
+  const totalNetReturn = lpNetReturn + shortPnl + fundingPnl + hedgeCosts;
+  const residualPnl = (finalLpValue - rangeResetCosts - mintSlippage - initialInvestment) + shortPnl;
+  const entryLiquidationPrice = sim.isHedgeEnabled ? getLiquidationPrice(sim, openHedge(sim, getPosition(sim), 0)) : null;
+  const liquidationDay = timeline.find(snapshot => snapshot.isLiquidated)?.day ?? null;
+  const totalNetReturnPct = initialInvestment > 0 ? (totalNetReturn / initialInvestment) * 100 : 0;
+  const finalTotalValue = initialInvestment + totalNetReturn;
+  const latestPriceRatio = priceB > 0 ? priceA / priceB : 0;
+
+  return {
+    initialInvestment, earnedFees, impermanentLoss, impermanentLossPct, holdValue,
+    finalLpValue, lpNetReturn, lpNetReturnPct, rangeResetCosts, rangeResetCount, rangeEpochs,
+    finalHoldings: getHoldings(sim, finalPosition, priceA, priceB),
+    transactionCosts, totalTransactionCosts: getTotalTransactionCosts(transactionCosts),
+    breakEvenDays: getBreakEvenDays(timeline, transactionCosts),
+    shortPnl, fundingPnl, hedgeCosts,
+    rebalanceCount, residualPnl, finalShortUnits: shortUnits, entryLiquidationPrice, liquidationDay, totalNetReturn,
+    totalNetReturnPct, finalTotalValue, isInRange,
+    finalPriceA: priceA, finalPriceB: priceB,
+    priceRange: { min: lowerPriceBound, max: upperPriceBound, current: latestPriceRatio, isInRange }
+  };
+};
+
+// Net token holdings at the end of the simulation: what the LP position holds minus the
+// units of the short token still sold by the hedge.
+export const getTokenExposure = (sim: Simulation, results: SimulationResults): TokenAmounts => {
+  const held = results.finalHoldings;
+  if (!sim.isHedgeEnabled) return held;
+  return sim.shortToken === 'A'
+    ? { amountA: held.amountA - results.finalShortUnits, amountB: held.amountB }
+    : { amountA: held.amountA, amountB: held.amountB - results.finalShortUnits };
+};
+
+// Day-by-day snapshots for the chart.
+export const buildTimeline = (sim: Simulation): SimulationSnapshot[] => {
+  if (sim.duration <= 0 || !sim.amountA || !sim.amountB) return [];
+  return simulatePath(sim, getPricePath(sim));
+};
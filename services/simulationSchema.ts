@@ -0,0 +1,248 @@
+import { type Simulation, type PriceSeriesPoint, type FundingRatePoint, type ProjectionScenario } from '../types';
+
+type FieldSpec =
+  | { type: 'string'; required?: boolean; oneOf?: readonly string[] }
+  | { type: 'number'; required?: boolean; min?: number }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'priceSeries'; required?: boolean }
+  | { type: 'fundingSchedule'; required?: boolean }
+  | { type: 'scenarios'; required?: boolean };
+
+// Every Simulation field must be listed here so imports and stored data are checked field by field.
+const SIMULATION_FIELDS: Record<keyof Simulation, FieldSpec> = {
+  id: { type: 'string', required: true },
+  protocol: { type: 'string', required: true },
+  protocolId: { type: 'string' },
+  amplification: { type: 'number', min: 0 },
+  tokenA: { type: 'string', required: true },
+  tokenB: { type: 'string', required: true },
+  decimalsA: { type: 'number', min: 0 },
+  decimalsB: { type: 'number', min: 0 },
+  initialInvestment: { type: 'number', min: 0 },
+  amountA: { type: 'number', min: 0 },
+  amountB: { type: 'number', min: 0 },
+  apr: { type: 'number', required: true },
+  duration: { type: 'number', required: true, min: 0 },
+  lowerPriceBound: { type: 'number', required: true },
+  upperPriceBound: { type: 'number', required: true },
+  startDate: { type: 'string', required: true },
+  initialPriceA: { type: 'number', required: true, min: 0 },
+  initialPriceB: { type: 'number', required: true, min: 0 },
+  latestPriceA: { type: 'number', required: true, min: 0 },
+  latestPriceB: { type: 'number', required: true, min: 0 },
+  feeMode: { type: 'string', oneOf: ['apr', 'volume'] },
+  tradeVolume: { type: 'number', min: 0 },
+  volumeFee: { type: 'number', min: 0 },
+  poolTvl: { type: 'number', min: 0 },
+  priceSeries: { type: 'priceSeries' },
+  priceSeriesName: { type: 'string' },
+  priceProviderId: { type: 'string' },
+  priceProviderUrl: { type: 'string' },
+  isTrackingEnabled: { type: 'boolean' },
+  priceSnapshots: { type: 'priceSeries' },
+  autoRefreshMinutes: { type: 'number', min: 0 },
+  scenarios: { type: 'scenarios' },
+  rangeStrategy: { type: 'string', oneOf: ['never', 'outOfRange', 'threshold'] },
+  rangeResetDelay: { type: 'number', min: 0 },
+  rangeResetTriggerPct: { type: 'number', min: 0 },
+  rangeResetSwapFee: { type: 'number', min: 0 },
+  rangeResetGasCost: { type: 'number', min: 0 },
+  isTransactionCostEnabled: { type: 'boolean' },
+  gasPriceGwei: { type: 'number', min: 0 },
+  nativeTokenPrice: { type: 'number', min: 0 },
+  gasUnitsMint: { type: 'number', min: 0 },
+  gasUnitsCollect: { type: 'number', min: 0 },
+  collectFrequencyDays: { type: 'number', min: 0 },
+  gasUnitsRebalance: { type: 'number', min: 0 },
+  gasUnitsBurn: { type: 'number', min: 0 },
+  openSlippage: { type: 'number', min: 0 },
+  isMonteCarloEnabled: { type: 'boolean' },
+  volatilityA: { type: 'number', min: 0 },
+  volatilityB: { type: 'number', min: 0 },
+  driftA: { type: 'number' },
+  driftB: { type: 'number' },
+  monteCarloPaths: { type: 'number', min: 1 },
+  monteCarloSeed: { type: 'number' },
+  isHedgeEnabled: { type: 'boolean' },
+  hedgeMode: { type: 'string', oneOf: ['static', 'deltaNeutral'] },
+  hedgeRebalanceInterval: { type: 'number', min: 0 },
+  hedgeRebalanceThreshold: { type: 'number', min: 0 },
+  hedgeLeverage: { type: 'number', min: 0 },
+  hedgeMaintenanceMargin: { type: 'number', min: 0 },
+  hedgeEntryFee: { type: 'number', min: 0 },
+  hedgeExitFee: { type: 'number', min: 0 },
+  shortAmount: { type: 'number', required: true },
+  fundingRate: { type: 'number', required: true },
+  fundingSchedule: { type: 'fundingSchedule' },
+  fundingScheduleName: { type: 'string' },
+  shortToken: { type: 'string', required: true, oneOf: ['A', 'B'] },
+};
+
+// Simulation fields that hold a number.
+export type NumericSimulationField = {
+  [K in keyof Simulation]-?: NonNullable<Simulation[K]> extends number ? K : never;
+}[keyof Simulation];
+
+export const isNumericField = (field: string): field is NumericSimulationField =>
+  (SIMULATION_FIELDS as Record<string, FieldSpec | undefined>)[field]?.type === 'number';
+
+// Whether `value` may be stored in `field`, so editors never write a record validation rejects.
+export const isAcceptedNumber = (field: NumericSimulationField, value: number): boolean => {
+  const spec = SIMULATION_FIELDS[field];
+  return isFinite(value) && (spec.type !== 'number' || spec.min === undefined || value >= spec.min);
+};
+
+// Numbers below a field's minimum, which older versions of the card could store, are raised
+// to that minimum so the record still loads. Everything else is left for validation.
+export const clampNumbersToSchema = (record: Record<string, unknown>): Record<string, unknown> => {
+  const clamped = { ...record };
+  for (const [field, spec] of Object.entries(SIMULATION_FIELDS)) {
+    const value = clamped[field];
+    if (spec.type === 'number' && spec.min !== undefined && typeof value === 'number' && value < spec.min) {
+      clamped[field] = spec.min;
+    }
+  }
+  return clamped;
+};
+
+export interface SimulationValidationResult {
+  simulation: Simulation | null;
+  errors: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validatePriceSeries = (value: unknown, path: string, errors: string[]): PriceSeriesPoint[] | undefined => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of price points.`);
+    return undefined;
+  }
+  const series: PriceSeriesPoint[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const point = value[i];
+    if (!isPlainObject(point) || ![point.timestamp, point.priceA, point.priceB].every(v => typeof v === 'number' && isFinite(v))) {
+      errors.push(`${path}[${i}]: expected { timestamp, priceA, priceB } numbers.`);
+      return undefined;
+    }
+    series.push({ timestamp: point.timestamp as number, priceA: point.priceA as number, priceB: point.priceB as number });
+  }
+  return series;
+};
+
+const validateFundingSchedule = (value: unknown, path: string, errors: string[]): FundingRatePoint[] | undefined => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of funding rates.`);
+    return undefined;
+  }
+  const schedule: FundingRatePoint[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const point = value[i];
+    if (!isPlainObject(point) || ![point.day, point.rate].every(v => typeof v === 'number' && isFinite(v))) {
+      errors.push(`${path}[${i}]: expected { day, rate } numbers.`);
+      return undefined;
+    }
+    schedule.push({ day: point.day as number, rate: point.rate as number });
+  }
+  return schedule;
+};
+
+const isOptionalNumber = (value: unknown): boolean =>
+  value === undefined || (typeof value === 'number' && isFinite(value));
+
+const validateScenarios = (value: unknown, path: string, errors: string[]): ProjectionScenario[] | undefined => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of scenarios.`);
+    return undefined;
+  }
+  const scenarios: ProjectionScenario[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const scenario = value[i];
+    if (
+      !isPlainObject(scenario) ||
+      typeof scenario.id !== 'string' ||
+      typeof scenario.name !== 'string' ||
+      ![scenario.priceA, scenario.priceB].every(v => typeof v === 'number' && isFinite(v)) ||
+      !isOptionalNumber(scenario.duration) ||
+      !isOptionalNumber(scenario.apr)
+    ) {
+      errors.push(`${path}[${i}]: expected { id, name, priceA, priceB } with optional numeric duration and apr.`);
+      return undefined;
+    }
+    scenarios.push({
+      id: scenario.id,
+      name: scenario.name,
+      priceA: scenario.priceA as number,
+      priceB: scenario.priceB as number,
+      ...(scenario.duration !== undefined && { duration: scenario.duration as number }),
+      ...(scenario.apr !== undefined && { apr: scenario.apr as number }),
+    });
+  }
+  return scenarios;
+};
+
+// Checks an unknown value against the Simulation schema. Unknown fields are dropped; every
+// problem is reported with its field path, e.g. "simulations[2].apr: expected a number".
+export const validateSimulation = (value: unknown, path = 'simulation'): SimulationValidationResult => {
+  if (!isPlainObject(value)) {
+    return { simulation: null, errors: [`${path}: expected an object.`] };
+  }
+
+  const errors: string[] = [];
+  const result: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(SIMULATION_FIELDS) as [keyof Simulation, FieldSpec][]) {
+    const fieldPath = `${path}.${field}`;
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (spec.required) errors.push(`${fieldPath}: is required.`);
+      continue;
+    }
+
+    switch (spec.type) {
+      case 'string':
+        if (typeof fieldValue !== 'string') {
+          errors.push(`${fieldPath}: expected a string.`);
+        } else if (spec.oneOf && !spec.oneOf.includes(fieldValue)) {
+          errors.push(`${fieldPath}: expected one of ${spec.oneOf.map(v => `"${v}"`).join(', ')}.`);
+        } else {
+          result[field] = fieldValue;
+        }
+        break;
+      case 'number':
+        if (typeof fieldValue !== 'number' || !isFinite(fieldValue)) {
+          errors.push(`${fieldPath}: expected a number.`);
+        } else if (spec.min !== undefined && fieldValue < spec.min) {
+          errors.push(`${fieldPath}: must be at least ${spec.min}.`);
+        } else {
+          result[field] = fieldValue;
+        }
+        break;
+      case 'boolean':
+        if (typeof fieldValue !== 'boolean') {
+          errors.push(`${fieldPath}: expected true or false.`);
+        } else {
+          result[field] = fieldValue;
+        }
+        break;
+      case 'priceSeries': {
+        const series = validatePriceSeries(fieldValue, fieldPath, errors);
+        if (series) result[field] = series;
+        break;
+      }
+      case 'fundingSchedule': {
+        const schedule = validateFundingSchedule(fieldValue, fieldPath, errors);
+        if (schedule) result[field] = schedule;
+        break;
+      }
+      case 'scenarios': {
+        const scenarios = validateScenarios(fieldValue, fieldPath, errors);
+        if (scenarios) result[field] = scenarios;
+        break;
+      }
+    }
+  }
+
+  return errors.length > 0
+    ? { simulation: null, errors }
+    : { simulation: result as unknown as Simulation, errors };
+};
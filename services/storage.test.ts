@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import { type Simulation } from '../types';
+import {
+  SCHEMA_VERSION_KEY,
+  SIMULATIONS_KEY,
+  STORAGE_SCHEMA_VERSION,
+  getCardValuesKey,
+  loadSimulations,
+  migrateSimulationRecord,
+  readQuarantine,
+  saveSimulations,
+} from './storage';
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+}
+
+const validRecord = (id = 'sim-1'): Record<string, unknown> => ({
+  id,
+  protocol: 'Uniswap V3',
+  tokenA: 'ETH',
+  tokenB: 'USDC',
+  apr: 25,
+  duration: 30,
+  lowerPriceBound: 2400,
+  upperPriceBound: 3600,
+  startDate: '2024-01-01',
+  initialPriceA: 3000,
+  initialPriceB: 1,
+  latestPriceA: 3000,
+  latestPriceB: 1,
+  amountA: 1,
+  amountB: 3000,
+  shortAmount: 500,
+  fundingRate: 0.01,
+  shortToken: 'A',
+});
+
+// A record as written before schema version 1, which stored a USD investment instead of amounts.
+const legacyRecord = (id = 'sim-1'): Record<string, unknown> => {
+  const { amountA: _a, amountB: _b, ...rest } = validRecord(id);
+  return { ...rest, initialInvestment: 1000 };
+};
+
+const storageWith = (records: unknown, schemaVersion?: number): MemoryStorage => {
+  const storage = new MemoryStorage();
+  storage.setItem(SIMULATIONS_KEY, typeof records === 'string' ? records : JSON.stringify(records));
+  if (schemaVersion !== undefined) storage.setItem(SCHEMA_VERSION_KEY, schemaVersion.toString());
+  return storage;
+};
+
+describe('migrateSimulationRecord', () => {
+  it('splits a v0 investment 50/50 into token amounts at the initial prices', () => {
+    const migrated = migrateSimulationRecord(legacyRecord(), 0) as Record<string, unknown>;
+    expect(migrated.amountA).toBeCloseTo(500 / 3000, 12);
+    expect(migrated.amountB).toBe(500);
+    expect(migrated).not.toHaveProperty('initialInvestment');
+  });
+
+  it('keeps amounts that are already present and only drops the investment', () => {
+    const migrated = migrateSimulationRecord({ ...validRecord(), initialInvestment: 1000 }, 0) as Record<string, unknown>;
+    expect(migrated.amountA).toBe(1);
+    expect(migrated.amountB).toBe(3000);
+    expect(migrated).not.toHaveProperty('initialInvestment');
+  });
+
+  it('leaves records at the current or a newer version untouched', () => {
+    const record = legacyRecord();
+    expect(migrateSimulationRecord(record, STORAGE_SCHEMA_VERSION)).toEqual(record);
+    expect(migrateSimulationRecord(record, STORAGE_SCHEMA_VERSION + 1)).toEqual(record);
+  });
+
+  it('passes values that are not objects through for validation to report', () => {
+    expect(migrateSimulationRecord(42, 0)).toBe(42);
+    expect(migrateSimulationRecord(null, 0)).toBeNull();
+  });
+});
+
+describe('loadSimulations', () => {
+  it('returns nothing when no simulations are stored', () => {
+    expect(loadSimulations(new MemoryStorage())).toEqual({ simulations: [], quarantined: [], migratedFrom: null });
+  });
+
+  it('migrates unversioned data once and writes it back at the current version', () => {
+    const storage = storageWith([legacyRecord()]);
+    storage.setItem(getCardValuesKey('sim-1'), '{"apr":"25"}');
+
+    const result = loadSimulations(storage);
+    expect(result.migratedFrom).toBe(0);
+    expect(result.quarantined).toEqual([]);
+    expect(result.simulations).toHaveLength(1);
+    expect(result.simulations[0].amountB).toBe(500);
+    expect(storage.getItem(SCHEMA_VERSION_KEY)).toBe(STORAGE_SCHEMA_VERSION.toString());
+    expect(storage.getItem(getCardValuesKey('sim-1'))).toBeNull();
+
+    const again = loadSimulations(storage);
+    expect(again.migratedFrom).toBeNull();
+    expect(again.simulations).toEqual(result.simulations);
+  });
+
+  it('skips migrations and keeps card values for data at the current version', () => {
+    const storage = storageWith([validRecord()], STORAGE_SCHEMA_VERSION);
+    storage.setItem(getCardValuesKey('sim-1'), '{"apr":"25"}');
+    const stored = storage.getItem(SIMULATIONS_KEY);
+
+    const result = loadSimulations(storage);
+    expect(result.migratedFrom).toBeNull();
+    expect(result.simulations[0]).toEqual(validRecord());
+    expect(storage.getItem(SIMULATIONS_KEY)).toBe(stored);
+    expect(storage.getItem(getCardValuesKey('sim-1'))).not.toBeNull();
+  });
+
+  it('loads records from a newer schema version without migrating or downgrading them', () => {
+    const newer = STORAGE_SCHEMA_VERSION + 4;
+    const { amountA: _a, amountB: _b, ...withoutAmounts } = validRecord();
+    const storage = storageWith([{ ...withoutAmounts, initialInvestment: 1000, addedLater: true }], newer);
+
+    const result = loadSimulations(storage);
+    expect(result.migratedFrom).toBeNull();
+    expect(result.quarantined).toEqual([]);
+    // No v0 -> v1 split: the amounts stay unset and fields this version does not know are dropped.
+    expect(result.simulations[0]).toEqual({ ...withoutAmounts, initialInvestment: 1000 });
+    expect(storage.getItem(SCHEMA_VERSION_KEY)).toBe(newer.toString());
+  });
+
+  it('clamps out-of-range numbers the card used to store instead of quarantining the record', () => {
+    const written = { ...validRecord(), monteCarloPaths: 0, volatilityA: -20, duration: -1 };
+    const storage = new MemoryStorage();
+    saveSimulations([written as unknown as Simulation], storage);
+
+    const result = loadSimulations(storage);
+    expect(result.quarantined).toEqual([]);
+    expect(result.simulations[0]).toEqual({ ...validRecord(), monteCarloPaths: 1, volatilityA: 0, duration: 0 });
+    expect(readQuarantine(storage)).toEqual([]);
+  });
+
+  it('round-trips a saved simulation unchanged', () => {
+    const storage = new MemoryStorage();
+    const simulation = { ...validRecord(), monteCarloPaths: 500, volatilityA: 80, driftA: -5 } as unknown as Simulation;
+    saveSimulations([simulation], storage);
+    expect(loadSimulations(storage)).toEqual({ simulations: [simulation], quarantined: [], migratedFrom: null });
+  });
+
+  it('quarantines corrupt and half-valid entries and still loads the valid ones', () => {
+    const { tokenB: _tokenB, ...missingTokenB } = validRecord('sim-2');
+    const storage = storageWith([validRecord(), 42, missingTokenB], STORAGE_SCHEMA_VERSION);
+
+    const result = loadSimulations(storage);
+    expect(result.simulations.map(sim => sim.id)).toEqual(['sim-1']);
+    expect(result.quarantined.map(record => record.data)).toEqual([42, missingTokenB]);
+    expect(result.quarantined[0].errors).toEqual(['simulations[1]: expected an object.']);
+    expect(result.quarantined[1].errors).toEqual(['simulations[2].tokenB: is required.']);
+    expect(result.quarantined.every(record => !record.acknowledged && record.schemaVersion === STORAGE_SCHEMA_VERSION)).toBe(true);
+
+    expect(readQuarantine(storage)).toEqual(result.quarantined);
+    expect(JSON.parse(storage.getItem(SIMULATIONS_KEY)!)).toEqual([validRecord()]);
+
+    // The bad entries were moved out, so a second load finds nothing new to quarantine.
+    expect(loadSimulations(storage).quarantined).toEqual([]);
+    expect(readQuarantine(storage)).toHaveLength(2);
+  });
+
+  it('quarantines stored data that is not valid JSON', () => {
+    const storage = storageWith('[{"id": "sim-1",', STORAGE_SCHEMA_VERSION);
+
+    const result = loadSimulations(storage);
+    expect(result.simulations).toEqual([]);
+    expect(result.quarantined).toHaveLength(1);
+    expect(result.quarantined[0].errors).toEqual(['Stored data is not valid JSON.']);
+    expect(result.quarantined[0].data).toBe('[{"id": "sim-1",');
+    expect(storage.getItem(SIMULATIONS_KEY)).toBe('[]');
+  });
+
+  it('quarantines stored data that is not a list', () => {
+    const storage = storageWith({ simulations: [validRecord()] }, STORAGE_SCHEMA_VERSION);
+
+    const result = loadSimulations(storage);
+    expect(result.simulations).toEqual([]);
+    expect(result.quarantined[0].errors).toEqual(['Stored data is not a list of simulations.']);
+    expect(readQuarantine(storage)).toHaveLength(1);
+  });
+
+  it('appends to entries that were quarantined earlier', () => {
+    const storage = storageWith([7], STORAGE_SCHEMA_VERSION);
+    loadSimulations(storage);
+    storage.setItem(SIMULATIONS_KEY, JSON.stringify(['bad']));
+    loadSimulations(storage);
+    expect(readQuarantine(storage).map(record => record.data)).toEqual([7, 'bad']);
+  });
+});
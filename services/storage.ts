@@ -0,0 +1,160 @@
+import { type Simulation } from '../types';
+import { clampNumbersToSchema, validateSimulation } from './simulationSchema';
+
+export const SIMULATIONS_KEY = 'lp-simulations';
+export const SCHEMA_VERSION_KEY = 'lp-simulations-schema-version';
+export const QUARANTINE_KEY = 'lp-simulations-quarantine';
+
+// Each card keeps the raw text of its inputs under its own key.
+export const getCardValuesKey = (id: string): string => `lp-sim-values-${id}`;
+
+// Data written before versioning was introduced is treated as schema version 0.
+export const STORAGE_SCHEMA_VERSION = 1;
+
+type UnknownRecord = Record<string, unknown>;
+
+export interface QuarantinedRecord {
+  quarantinedAt: string;
+  schemaVersion: number;
+  errors: string[];
+  data: unknown;
+  acknowledged: boolean;
+}
+
+export interface LoadResult {
+  simulations: Simulation[];
+  quarantined: QuarantinedRecord[];
+  migratedFrom: number | null;
+}
+
+const isPlainObject = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// v0 -> v1: records that only carry `initialInvestment` are split 50/50 into token amounts
+// at the initial prices, which is how the old full-range model valued them.
+const migrateInitialInvestmentToAmounts = (record: UnknownRecord): UnknownRecord => {
+  const { initialInvestment, ...rest } = record;
+  if (rest.amountA != null || rest.amountB != null || typeof initialInvestment !== 'number') {
+    return rest;
+  }
+  const priceA = typeof rest.initialPriceA === 'number' ? rest.initialPriceA : 0;
+  const priceB = typeof rest.initialPriceB === 'number' ? rest.initialPriceB : 0;
+  return {
+    ...rest,
+    amountA: priceA > 0 ? (initialInvestment / 2) / priceA : 0,
+    amountB: priceB > 0 ? (initialInvestment / 2) / priceB : 0,
+  };
+};
+
+// RECORD_MIGRATIONS[n] upgrades a single record from schema version n to n + 1.
+const RECORD_MIGRATIONS: ((record: UnknownRecord) => UnknownRecord)[] = [
+  migrateInitialInvestmentToAmounts,
+];
+
+// Runs every migration from `fromVersion` up to the current schema version, then clamps numbers
+// the app itself may have written out of range. Values that are not objects are returned
+// untouched so validation can report them.
+export const migrateSimulationRecord = (record: unknown, fromVersion: number): unknown => {
+  if (!isPlainObject(record)) return record;
+  let migrated = record;
+  for (let version = Math.max(0, fromVersion); version < STORAGE_SCHEMA_VERSION; version++) {
+    migrated = RECORD_MIGRATIONS[version](migrated);
+  }
+  return clampNumbersToSchema(migrated);
+};
+
+const readSchemaVersion = (storage: Storage): number => {
+  const raw = storage.getItem(SCHEMA_VERSION_KEY);
+  const version = raw === null ? 0 : parseInt(raw, 10);
+  return isNaN(version) ? 0 : version;
+};
+
+export const readQuarantine = (storage: Storage = window.localStorage): QuarantinedRecord[] => {
+  try {
+    const raw = storage.getItem(QUARANTINE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+const writeQuarantine = (records: QuarantinedRecord[], storage: Storage) => {
+  if (records.length === 0) {
+    storage.removeItem(QUARANTINE_KEY);
+  } else {
+    storage.setItem(QUARANTINE_KEY, JSON.stringify(records));
+  }
+};
+
+export const acknowledgeQuarantine = (storage: Storage = window.localStorage): QuarantinedRecord[] => {
+  const records = readQuarantine(storage).map(record => ({ ...record, acknowledged: true }));
+  writeQuarantine(records, storage);
+  return records;
+};
+
+export const clearQuarantine = (storage: Storage = window.localStorage): void => {
+  storage.removeItem(QUARANTINE_KEY);
+};
+
+export const saveSimulations = (simulations: Simulation[], storage: Storage = window.localStorage): void => {
+  storage.setItem(SIMULATIONS_KEY, JSON.stringify(simulations));
+  storage.setItem(SCHEMA_VERSION_KEY, STORAGE_SCHEMA_VERSION.toString());
+};
+
+// Reads, migrates and validates the stored simulations. Entries that cannot be read are moved
+// to the quarantine key instead of being dropped, and the cleaned-up list is written back so
+// migrations only run once. Calling it again is harmless.
+export const loadSimulations = (storage: Storage = window.localStorage): LoadResult => {
+  const raw = storage.getItem(SIMULATIONS_KEY);
+  if (raw === null) return { simulations: [], quarantined: [], migratedFrom: null };
+
+  const schemaVersion = readSchemaVersion(storage);
+  const quarantinedAt = new Date().toISOString();
+  const quarantined: QuarantinedRecord[] = [];
+  const simulations: Simulation[] = [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    parsed = undefined;
+    quarantined.push({ quarantinedAt, schemaVersion, errors: ['Stored data is not valid JSON.'], data: raw, acknowledged: false });
+  }
+
+  if (parsed !== undefined && !Array.isArray(parsed)) {
+    quarantined.push({ quarantinedAt, schemaVersion, errors: ['Stored data is not a list of simulations.'], data: parsed, acknowledged: false });
+  } else if (Array.isArray(parsed)) {
+    parsed.forEach((record, index) => {
+      const { simulation, errors } = validateSimulation(migrateSimulationRecord(record, schemaVersion), `simulations[${index}]`);
+      if (simulation) {
+        simulations.push(simulation);
+      } else {
+        quarantined.push({ quarantinedAt, schemaVersion, errors, data: record, acknowledged: false });
+      }
+    });
+  }
+
+  const needsRewrite = quarantined.length > 0 || schemaVersion < STORAGE_SCHEMA_VERSION;
+  if (needsRewrite) {
+    try {
+      if (quarantined.length > 0) {
+        writeQuarantine([...readQuarantine(storage), ...quarantined], storage);
+      }
+      saveSimulations(simulations, storage);
+      if (schemaVersion < STORAGE_SCHEMA_VERSION) {
+        // Cached card inputs were derived from the old record shape; let the cards rebuild them.
+        simulations.forEach(sim => storage.removeItem(getCardValuesKey(sim.id)));
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  return {
+    simulations,
+    quarantined,
+    migratedFrom: schemaVersion < STORAGE_SCHEMA_VERSION ? schemaVersion : null,
+  };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { type Simulation } from '../types';
+import { BUILT_IN_TEMPLATES, createSimulationFromTemplate, findCurrentPriceA } from './templates';
+
+const ethUsdc = BUILT_IN_TEMPLATES.find(template => template.settings.tokenA === 'ETH' && template.settings.tokenB === 'USDC')!;
+
+const simulationOf = (tokenA: string, tokenB: string, latestPriceA: number) => ({ tokenA, tokenB, latestPriceA }) as Simulation;
+
+describe('findCurrentPriceA', () => {
+  it('takes the latest price of the first simulation of the same pair', () => {
+    const simulations = [simulationOf('WBTC', 'USDC', 60000), simulationOf('eth', 'usdc', 3500), simulationOf('ETH', 'USDC', 3400)];
+    expect(findCurrentPriceA(ethUsdc, simulations)).toBe(3500);
+  });
+
+  it('returns null instead of the saved price when no simulation has the pair', () => {
+    expect(findCurrentPriceA(ethUsdc, [simulationOf('USDC', 'ETH', 0.0003), simulationOf('ETH', 'USDC', 0)])).toBeNull();
+  });
+});
+
+describe('createSimulationFromTemplate', () => {
+  it('opens at the given price and lays the range around it', () => {
+    const { simulation } = createSimulationFromTemplate(ethUsdc, 4000);
+    expect(simulation?.initialPriceA).toBe(4000);
+    expect(simulation!.lowerPriceBound).toBeLessThan(4000);
+    expect(simulation!.upperPriceBound).toBeGreaterThan(4000);
+  });
+});
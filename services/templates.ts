@@ -0,0 +1,197 @@
+import { type Simulation, type SimulationTemplate, type TemplateSettings } from '../types';
+import { type SimulationValidationResult, validateSimulation } from './simulationSchema';
+import { createSimulationId } from './portfolio';
+import { hasPriceRange, roundBound, snapBound } from './protocols';
+import { normalizeSymbol } from './tokens';
+
+export const TEMPLATES_KEY = 'lp-sim-templates';
+export const DEFAULT_TEMPLATE_ID = 'builtin-eth-usdc-v3';
+
+// 1000 USD split evenly into ETH and USDC at 3000 USDC per ETH, with costs, Monte Carlo and the
+// hedge configured but switched off.
+const BASE_SETTINGS: TemplateSettings = {
+  protocol: 'Uniswap V3',
+  protocolId: 'uniswap-v3',
+  tokenA: 'ETH',
+  tokenB: 'USDC',
+  decimalsA: 18,
+  decimalsB: 6,
+  amountA: 500 / 3000,
+  amountB: 500,
+  apr: 25,
+  duration: 30,
+  initialPriceA: 3000,
+  initialPriceB: 1,
+  latestPriceA: 3000,
+  latestPriceB: 1,
+  feeMode: 'apr',
+  tradeVolume: 1000000,
+  volumeFee: 0.3,
+  poolTvl: 10000000,
+  priceProviderId: 'gemini',
+  rangeStrategy: 'never',
+  rangeResetDelay: 1,
+  rangeResetTriggerPct: 50,
+  rangeResetSwapFee: 0.3,
+  rangeResetGasCost: 5,
+  isTransactionCostEnabled: false,
+  gasPriceGwei: 20,
+  nativeTokenPrice: 3000,
+  gasUnitsMint: 500000,
+  gasUnitsCollect: 150000,
+  collectFrequencyDays: 7,
+  gasUnitsRebalance: 600000,
+  gasUnitsBurn: 250000,
+  openSlippage: 0.1,
+  isMonteCarloEnabled: false,
+  volatilityA: 80,
+  volatilityB: 1,
+  driftA: 0,
+  driftB: 0,
+  monteCarloPaths: 1000,
+  monteCarloSeed: 42,
+  isHedgeEnabled: false,
+  hedgeMode: 'static',
+  hedgeLeverage: 1,
+  hedgeMaintenanceMargin: 0.5,
+  hedgeEntryFee: 0.05,
+  hedgeExitFee: 0.05,
+  shortAmount: 500,
+  fundingRate: 0.01,
+  shortToken: 'A',
+};
+
+export const BUILT_IN_TEMPLATES: SimulationTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'ETH/USDC ±20%',
+    builtIn: true,
+    rangeLowerPct: 20,
+    rangeUpperPct: 20,
+    settings: BASE_SETTINGS,
+  },
+  {
+    id: 'builtin-eth-usdc-v2',
+    name: 'ETH/USDC Full Range',
+    builtIn: true,
+    rangeLowerPct: 100,
+    rangeUpperPct: 100,
+    settings: { ...BASE_SETTINGS, protocol: 'Uniswap V2', protocolId: 'uniswap-v2', apr: 10 },
+  },
+  {
+    id: 'builtin-eth-usdc-hedged',
+    name: 'ETH/USDC Delta-Neutral ±10%',
+    builtIn: true,
+    rangeLowerPct: 10,
+    rangeUpperPct: 10,
+    settings: {
+      ...BASE_SETTINGS,
+      apr: 40,
+      rangeStrategy: 'outOfRange',
+      isHedgeEnabled: true,
+      hedgeMode: 'deltaNeutral',
+      hedgeRebalanceInterval: 1,
+      hedgeLeverage: 2,
+    },
+  },
+  {
+    id: 'builtin-usdc-usdt-stableswap',
+    name: 'USDC/USDT Stableswap',
+    builtIn: true,
+    rangeLowerPct: 1,
+    rangeUpperPct: 1,
+    settings: {
+      ...BASE_SETTINGS,
+      protocol: 'Curve Stableswap',
+      protocolId: 'curve-stableswap',
+      amplification: 100,
+      tokenA: 'USDC',
+      tokenB: 'USDT',
+      decimalsA: 6,
+      decimalsB: 6,
+      amountA: 500,
+      amountB: 500,
+      apr: 5,
+      initialPriceA: 1,
+      latestPriceA: 1,
+      volatilityA: 1,
+      shortAmount: 500,
+    },
+  },
+];
+
+export const createTemplate = (sim: Simulation, name: string): SimulationTemplate => {
+  const {
+    id: _id, startDate: _startDate, lowerPriceBound, upperPriceBound,
+    priceSeries: _priceSeries, priceSeriesName: _priceSeriesName, priceSnapshots: _priceSnapshots, scenarios: _scenarios,
+    fundingSchedule: _fundingSchedule, fundingScheduleName: _fundingScheduleName,
+    ...settings
+  } = sim;
+  const priceRatio = sim.initialPriceB > 0 ? sim.initialPriceA / sim.initialPriceB : 0;
+  return {
+    id: `template-${createSimulationId()}`,
+    name,
+    rangeLowerPct: priceRatio > 0 ? ((priceRatio - lowerPriceBound) / priceRatio) * 100 : 0,
+    rangeUpperPct: priceRatio > 0 ? ((upperPriceBound - priceRatio) / priceRatio) * 100 : 0,
+    settings: structuredClone(settings),
+  };
+};
+
+// Current price of the template's token A, taken from the first simulation of the same pair
+// that has one, or null when none does. The template's own price dates from when it was saved.
+export const findCurrentPriceA = (template: SimulationTemplate, simulations: Simulation[]): number | null => {
+  const tokenA = normalizeSymbol(template.settings.tokenA);
+  const tokenB = normalizeSymbol(template.settings.tokenB);
+  const match = simulations.find(sim =>
+    normalizeSymbol(sim.tokenA) === tokenA && normalizeSymbol(sim.tokenB) === tokenB && sim.latestPriceA > 0
+  );
+  return match ? match.latestPriceA : null;
+};
+
+// A new simulation from the template, opened today with token A at `priceA`. Token amounts keep
+// their USD value, the projected end price moves by the same factor and the range is laid
+// around the new price ratio. The result is validated since user templates come from storage.
+export const createSimulationFromTemplate = (
+  template: SimulationTemplate,
+  priceA = template.settings.initialPriceA
+): SimulationValidationResult => {
+  const settings = structuredClone(template.settings);
+  const scale = settings.initialPriceA > 0 && priceA > 0 ? priceA / settings.initialPriceA : 1;
+  const priceRatio = settings.initialPriceB > 0 ? (settings.initialPriceA * scale) / settings.initialPriceB : 0;
+  const sim: Simulation = {
+    ...settings,
+    id: createSimulationId(),
+    startDate: new Date().toISOString().split('T')[0],
+    amountA: settings.amountA !== undefined ? settings.amountA / scale : undefined,
+    initialPriceA: settings.initialPriceA * scale,
+    latestPriceA: settings.latestPriceA * scale,
+    lowerPriceBound: Math.max(0, priceRatio * (1 - template.rangeLowerPct / 100)),
+    upperPriceBound: priceRatio * (1 + template.rangeUpperPct / 100),
+  };
+  if (hasPriceRange(sim)) {
+    sim.lowerPriceBound = snapBound(sim, sim.lowerPriceBound);
+    sim.upperPriceBound = snapBound(sim, sim.upperPriceBound);
+  }
+  sim.lowerPriceBound = roundBound(sim.lowerPriceBound);
+  sim.upperPriceBound = roundBound(sim.upperPriceBound);
+  return validateSimulation(sim, `templates[${template.name}]`);
+};
+
+const isTemplate = (value: unknown): value is SimulationTemplate => {
+  if (typeof value !== 'object' || value === null) return false;
+  const template = value as Record<string, unknown>;
+  return typeof template.id === 'string'
+    && typeof template.name === 'string'
+    && typeof template.rangeLowerPct === 'number'
+    && typeof template.rangeUpperPct === 'number'
+    && typeof template.settings === 'object' && template.settings !== null;
+};
+
+// User templates read from storage; entries that no longer make a valid simulation are skipped.
+export const parseUserTemplates = (value: unknown): SimulationTemplate[] =>
+  Array.isArray(value)
+    ? value
+        .filter(isTemplate)
+        .map(template => ({ ...template, builtIn: false }))
+        .filter(template => createSimulationFromTemplate(template).simulation !== null)
+    : [];
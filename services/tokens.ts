@@ -0,0 +1,90 @@
+import { type Simulation, type TokenInfo } from '../types';
+
+export const TOKENS_KEY = 'lp-sim-tokens';
+
+export const DEFAULT_TOKENS: TokenInfo[] = [
+  { symbol: 'ETH', decimals: 18, pegged: false, volatility: 80 },
+  { symbol: 'WETH', decimals: 18, pegged: false, volatility: 80 },
+  { symbol: 'WBTC', decimals: 8, pegged: false, volatility: 60 },
+  { symbol: 'SOL', decimals: 9, pegged: false, volatility: 100 },
+  { symbol: 'ARB', decimals: 18, pegged: false, volatility: 110 },
+  { symbol: 'LINK', decimals: 18, pegged: false, volatility: 90 },
+  { symbol: 'USDC', decimals: 6, pegged: true, volatility: 1 },
+  { symbol: 'USDT', decimals: 6, pegged: true, volatility: 1 },
+  { symbol: 'DAI', decimals: 18, pegged: true, volatility: 1 },
+];
+
+export const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+const isTokenInfo = (value: unknown): value is TokenInfo => {
+  if (typeof value !== 'object' || value === null) return false;
+  const token = value as Record<string, unknown>;
+  return typeof token.symbol === 'string' && token.symbol.trim() !== ''
+    && typeof token.decimals === 'number' && Number.isInteger(token.decimals) && token.decimals >= 0
+    && typeof token.pegged === 'boolean'
+    && typeof token.volatility === 'number' && token.volatility >= 0
+    && (token.priceProviderId === undefined || typeof token.priceProviderId === 'string');
+};
+
+// The saved registry, or the defaults when nothing usable is stored. Workers have no storage
+// and get the defaults too.
+const loadTokens = (): TokenInfo[] => {
+  if (typeof window === 'undefined') return DEFAULT_TOKENS;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(TOKENS_KEY) ?? 'null');
+    return Array.isArray(stored) ? stored.filter(isTokenInfo) : DEFAULT_TOKENS;
+  } catch (error) {
+    console.error('Failed to read the token registry:', error);
+    return DEFAULT_TOKENS;
+  }
+};
+
+let tokens = loadTokens();
+const listeners = new Set<() => void>();
+
+export const listTokens = (): TokenInfo[] => tokens;
+
+export const getToken = (symbol: string): TokenInfo | null => {
+  const normalized = normalizeSymbol(symbol);
+  return tokens.find(token => token.symbol === normalized) ?? null;
+};
+
+// Unknown tokens are treated as free-floating.
+export const isPegged = (symbol: string): boolean => getToken(symbol)?.pegged ?? false;
+
+export const getPeggedSides = (sim: Simulation): { a: boolean; b: boolean } => ({
+  a: isPegged(sim.tokenA),
+  b: isPegged(sim.tokenB),
+});
+
+export const saveTokens = (next: TokenInfo[]): void => {
+  tokens = next;
+  try {
+    window.localStorage.setItem(TOKENS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Failed to save the token registry:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeTokens = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Settings a known token brings to the side of the pair it is entered on. The price feed
+// follows the free-floating token, since a pegged one says little about where the pair trades.
+export const getTokenDefaults = (symbol: string, side: 'A' | 'B'): Partial<Simulation> => {
+  const token = getToken(symbol);
+  if (!token) return {};
+  return {
+    [`decimals${side}`]: token.decimals,
+    [`volatility${side}`]: token.volatility,
+    ...(token.priceProviderId && !token.pegged ? { priceProviderId: token.priceProviderId } : {}),
+  };
+};
+
+// The token to short when a hedge is switched on: the free-floating side of the pair, since a
+// pegged token carries little price risk.
+export const getDefaultShortToken = (sim: Simulation): 'A' | 'B' =>
+  isPegged(sim.tokenA) && !isPegged(sim.tokenB) ? 'B' : 'A';
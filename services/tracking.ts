@@ -0,0 +1,53 @@
+import { type Simulation, type PriceQuote, type PriceSeriesPoint } from '../types';
+import { type PricePoint, getLinearPricePath, getStepDays } from './pricePath';
+import { getStartTimestamp, samplePriceSeries } from './priceSeries';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The oldest snapshots are dropped beyond this, so a long-running auto-refresh stays within
+// what localStorage can hold.
+export const MAX_PRICE_SNAPSHOTS = 2000;
+// Minutes between automatic updates offered in the card, 0 = manual only.
+export const AUTO_REFRESH_MINUTES = [0, 1, 5, 15, 60];
+
+// Days from startDate to `now`, within 0..duration.
+export const getElapsedDays = (sim: Simulation, now = Date.now()): number => {
+  const start = getStartTimestamp(sim);
+  if (isNaN(start)) return 0;
+  return Math.min(sim.duration, Math.max(0, (now - start) / DAY_MS));
+};
+
+// A fetched quote becomes the latest prices and, while tracking, is also recorded.
+export const applyPriceQuote = (sim: Simulation, quote: PriceQuote, timestamp = Date.now()): Partial<Simulation> => {
+  const update: Partial<Simulation> = { latestPriceA: quote.priceA, latestPriceB: quote.priceB };
+  if (!sim.isTrackingEnabled) return update;
+  const snapshot: PriceSeriesPoint = { timestamp, priceA: quote.priceA, priceB: quote.priceB };
+  return { ...update, priceSnapshots: [...(sim.priceSnapshots ?? []), snapshot].slice(-MAX_PRICE_SNAPSHOTS) };
+};
+
+// Observed path while tracking: the initial prices at startDate, then each recorded snapshot,
+// then the latest prices now, sampled on the usual daily steps plus a step at today so fees
+// and funding accrue over the real elapsed time. The rest of the duration is projected at the
+// latest prices.
+export const getTrackedPricePath = (sim: Simulation, now = Date.now()): PricePoint[] => {
+  const start = getStartTimestamp(sim);
+  if (isNaN(start) || sim.duration <= 0) return getLinearPricePath(sim);
+
+  const snapshots = (sim.priceSnapshots ?? [])
+    .filter(snapshot => snapshot.timestamp > start && snapshot.timestamp < now)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const observed: PriceSeriesPoint[] = [
+    { timestamp: start, priceA: sim.initialPriceA, priceB: sim.initialPriceB },
+    ...snapshots,
+    { timestamp: Math.max(now, start), priceA: sim.latestPriceA, priceB: sim.latestPriceB },
+  ];
+  const latest = { priceA: sim.latestPriceA, priceB: sim.latestPriceB };
+  const sample = (day: number): PricePoint => ({ day, ...(samplePriceSeries(observed, start + day * DAY_MS) ?? latest) });
+
+  const elapsed = getElapsedDays(sim, now);
+  const days = getStepDays(sim.duration);
+  return [
+    ...days.filter(day => day < elapsed).map(sample),
+    sample(elapsed),
+    ...days.filter(day => day > elapsed).map(day => ({ day, ...latest })),
+  ];
+};
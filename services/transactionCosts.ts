@@ -0,0 +1,72 @@
+import { type Simulation } from '../types';
+import { type LpPosition, amountsForValue, openPosition } from './pricingEngine';
+import { getPoolCurve } from './protocols';
+
+// On-chain costs paid over the life of a position, each <= 0 and in USD.
+export interface TransactionCosts {
+  mintGas: number;
+  mintSlippage: number; // swapping the deposit into the range's token mix
+  collectGas: number;
+  rangeResets: number; // swap fees and gas paid to re-center the range
+  burnGas: number; // closing the position, valued at every step as if it were the last
+}
+
+export const NO_TRANSACTION_COSTS: TransactionCosts = { mintGas: 0, mintSlippage: 0, collectGas: 0, rangeResets: 0, burnGas: 0 };
+
+export const getTotalTransactionCosts = (costs: TransactionCosts): number =>
+  costs.mintGas + costs.mintSlippage + costs.collectGas + costs.rangeResets + costs.burnGas;
+
+// Costs paid in the gas token from the wallet; slippage and range resets come out of the position.
+export const getWalletPaidCosts = (costs: TransactionCosts): number =>
+  costs.mintGas + costs.collectGas + costs.burnGas;
+
+// USD price of a transaction using `gasUnits` at the simulation's gas and native-token prices.
+export const getGasCost = (sim: Simulation, gasUnits = 0): number =>
+  gasUnits * (sim.gasPriceGwei ?? 0) * 1e-9 * (sim.nativeTokenPrice ?? 0);
+
+// Gas for one range re-centering: from the cost model when it is enabled, otherwise the flat USD amount.
+export const getRebalanceGasCost = (sim: Simulation): number =>
+  sim.isTransactionCostEnabled ? getGasCost(sim, sim.gasUnitsRebalance) : (sim.rangeResetGasCost ?? 0);
+
+// Fee collections made in the first `elapsedDays`; the collect at close is part of the burn.
+export const getCollectCount = (sim: Simulation, elapsedDays: number): number => {
+  const frequency = sim.collectFrequencyDays ?? 0;
+  return frequency > 0 && elapsedDays > 0 ? Math.floor(elapsedDays / frequency) : 0;
+};
+
+export interface MintedPosition {
+  position: LpPosition;
+  slippage: number; // <= 0, taken out of the position
+}
+
+// Swaps the deposit into the token mix the range needs at the entry price and mints with it,
+// instead of leaving the part the range cannot absorb idle.
+export const mintWithSwap = (
+  sim: Simulation,
+  amountA: number,
+  amountB: number,
+  lowerPrice: number,
+  upperPrice: number
+): MintedPosition => {
+  const { initialPriceA: priceA, initialPriceB: priceB } = sim;
+  const priceRatio = priceA / priceB;
+  const curve = getPoolCurve(sim);
+  const value = amountA * priceA + amountB * priceB;
+  const target = amountsForValue(value, priceA, priceB, priceRatio, lowerPrice, upperPrice, curve);
+  const slippage = -Math.abs(amountA - target.amountA) * priceA * ((sim.openSlippage ?? 0) / 100);
+  const funded = amountsForValue(value + slippage, priceA, priceB, priceRatio, lowerPrice, upperPrice, curve);
+  return { position: openPosition(funded.amountA, funded.amountB, priceRatio, lowerPrice, upperPrice, curve), slippage };
+};
+
+// Costs run up by `elapsedDays` into the position, given the slippage paid at mint and the
+// range resets so far. Nothing is charged when the cost model is off.
+export const getTransactionCosts = (sim: Simulation, elapsedDays: number, mintSlippage: number, rangeResets: number): TransactionCosts => {
+  if (!sim.isTransactionCostEnabled) return { ...NO_TRANSACTION_COSTS, rangeResets };
+  return {
+    mintGas: -getGasCost(sim, sim.gasUnitsMint),
+    mintSlippage,
+    collectGas: -getGasCost(sim, sim.gasUnitsCollect) * getCollectCount(sim, elapsedDays),
+    rangeResets,
+    burnGas: -getGasCost(sim, sim.gasUnitsBurn),
+  };
+};
@@ -1,9 +1,56 @@
+export type FeeMode = 'apr' | 'volume';
+
+export type HedgeMode = 'static' | 'deltaNeutral';
+
+export type RangeStrategy = 'never' | 'outOfRange' | 'threshold';
+
+export type PoolInvariant = 'constantProduct' | 'concentrated' | 'stableswap';
+
+export interface FeeTier {
+  fee: number; // %
+  tickSpacing: number; // ticks between usable range bounds, 0 when the pool has no range
+}
+
+export interface ProtocolDefinition {
+  id: string;
+  name: string;
+  description: string;
+  invariant: PoolInvariant;
+  feeTiers: FeeTier[]; // fees a pool can be deployed with, empty when any fee is allowed
+  defaultAmplification?: number; // stableswap only
+}
+
+export interface FundingRatePoint {
+  day: number; // days since the start date from which the rate applies
+  rate: number; // %/day
+}
+
+// A named projection of where prices end up, optionally over its own duration or APR.
+export interface ProjectionScenario {
+  id: string;
+  name: string;
+  priceA: number;
+  priceB: number;
+  duration?: number;
+  apr?: number;
+}
+
+export interface PriceSeriesPoint {
+  timestamp: number; // ms since epoch
+  priceA: number;
+  priceB: number;
+}
+
 export interface Simulation {
   id: string;
-  protocol: string;
+  protocol: string; // display name
+  protocolId?: string; // registry entry that sets the AMM math, Uniswap V3 when unset
+  amplification?: number; // stableswap amplification coefficient A
   tokenA: string;
   tokenB: string;
-  initialInvestment?: number; // Make optional for backwards compatibility
+  decimalsA?: number; // token decimals, which shift prices against on-chain ticks
+  decimalsB?: number;
+  initialInvestment?: number; // legacy, migrated into amountA/amountB on load
   amountA?: number;
   amountB?: number;
   apr: number;
@@ -15,10 +62,89 @@ export interface Simulation {
   initialPriceB: number;
   latestPriceA: number;
   latestPriceB: number;
-  tradeVolume?: number;
-  volumeFee?: number;
+  feeMode?: FeeMode;
+  tradeVolume?: number; // pool daily volume in USD
+  volumeFee?: number; // pool fee tier in %
+  poolTvl?: number; // pool liquidity in USD, treated as full-range depth
+  priceSeries?: PriceSeriesPoint[]; // imported history that drives the timeline when present
+  priceSeriesName?: string;
+  priceProviderId?: string;
+  priceProviderUrl?: string; // URL template for the HTTP JSON provider
+  isTrackingEnabled?: boolean; // live tracking: price updates are recorded and drive the timeline up to today
+  priceSnapshots?: PriceSeriesPoint[]; // prices recorded by each update while tracking, oldest first
+  autoRefreshMinutes?: number; // minutes between automatic price updates while tracking, 0 = manual
+  scenarios?: ProjectionScenario[];
+  rangeStrategy?: RangeStrategy; // how the range is re-centered when price moves away, 'never' when unset
+  rangeResetDelay?: number; // 'outOfRange': days out of range before re-centering
+  rangeResetTriggerPct?: number; // 'threshold': move from the range's center, in % of the range width
+  rangeResetSwapFee?: number; // % of the value swapped to rebalance the tokens for the new range
+  rangeResetGasCost?: number; // USD per re-centering, replaced by gasUnitsRebalance when transaction costs are on
+  isTransactionCostEnabled?: boolean;
+  gasPriceGwei?: number;
+  nativeTokenPrice?: number; // USD price of the chain's gas token
+  gasUnitsMint?: number;
+  gasUnitsCollect?: number;
+  collectFrequencyDays?: number; // days between fee collections, 0 = only when the position is closed
+  gasUnitsRebalance?: number; // per range re-centering (burn, swap and mint)
+  gasUnitsBurn?: number;
+  openSlippage?: number; // % of the value swapped to match the range's token mix at mint
+  isMonteCarloEnabled?: boolean;
+  volatilityA?: number; // annualized, in %
+  volatilityB?: number;
+  driftA?: number; // annualized, in %
+  driftB?: number;
+  monteCarloPaths?: number;
+  monteCarloSeed?: number;
   isHedgeEnabled?: boolean;
+  hedgeMode?: HedgeMode; // 'static' keeps shortAmount; 'deltaNeutral' sizes the short from the position's delta
+  hedgeRebalanceInterval?: number; // days between delta-neutral rebalances, 0 = never
+  hedgeRebalanceThreshold?: number; // rebalance once the unhedged delta exceeds this % of the LP value, 0 = never
+  hedgeLeverage?: number; // entry notional / collateral, 1 when unset
+  hedgeMaintenanceMargin?: number; // % of the notional the collateral must cover to avoid liquidation
+  hedgeEntryFee?: number; // taker fee, % of the notional sold when opening or growing the short
+  hedgeExitFee?: number; // taker fee, % of the notional bought back when shrinking or closing it
   shortAmount: number;
-  fundingRate: number;
+  fundingRate: number; // %/day, used when there is no funding schedule for the day
+  fundingSchedule?: FundingRatePoint[];
+  fundingScheduleName?: string; // file the schedule was imported from, if any
   shortToken: 'A' | 'B';
-}
\ No newline at end of file
+}
+
+// Settings a template carries over: everything but identity, dates and data tied to the
+// prices or days of the original simulation.
+export type TemplateSettings = Omit<
+  Simulation,
+  'id' | 'startDate' | 'lowerPriceBound' | 'upperPriceBound' | 'priceSeries' | 'priceSeriesName' | 'priceSnapshots'
+  | 'scenarios' | 'fundingSchedule' | 'fundingScheduleName'
+>;
+
+// A starting point for new simulations. The range is kept as a deviation from the initial
+// price ratio so it adapts to the price a new position is opened at.
+export interface SimulationTemplate {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  rangeLowerPct: number; // % below the initial price ratio
+  rangeUpperPct: number; // % above it
+  settings: TemplateSettings;
+}
+
+export interface PriceQuote {
+  priceA: number;
+  priceB: number;
+}
+
+export interface PriceProvider {
+  id: string;
+  name: string;
+  description: string;
+  fetchPrices: (simulation: Simulation) => Promise<PriceQuote>;
+}
+
+export interface TokenInfo {
+  symbol: string;
+  decimals: number;
+  pegged: boolean; // stablecoins and other tokens held close to a reference price
+  volatility: number; // annualized %, the Monte Carlo default
+  priceProviderId?: string; // unset keeps the simulation's provider
+}